@@ -0,0 +1,89 @@
+"use client";
+
+import { Mic, MicOff, Video, VideoOff } from "lucide-react";
+
+import type { MediaDeviceOption, MeshCall } from "@/app/_components/useMeshCall";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+
+type CallControlsProps = {
+  call: MeshCall;
+};
+
+const DEVICE_PICKERS: { kind: MediaDeviceKind; placeholder: string; fallbackLabel: string }[] = [
+  { kind: "audioinput", placeholder: "Default microphone", fallbackLabel: "Microphone" },
+  { kind: "videoinput", placeholder: "Default camera", fallbackLabel: "Camera" },
+  { kind: "audiooutput", placeholder: "Default speaker", fallbackLabel: "Speaker" },
+];
+
+export default function CallControls({ call }: CallControlsProps) {
+  const selectedIds: Record<MediaDeviceKind, string> = {
+    audioinput: call.audioInputId,
+    videoinput: call.videoInputId,
+    audiooutput: call.audioOutputId,
+  };
+  const hasMicrophone = !call.inCall || call.localStream?.getAudioTracks().length !== 0;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          type="button"
+          aria-label={call.micEnabled ? "Mute microphone" : "Unmute microphone"}
+          aria-pressed={!call.micEnabled}
+          disabled={!hasMicrophone}
+          onClick={call.toggleMic}
+        >
+          {call.micEnabled ? <Mic className="h-4 w-4" /> : <MicOff className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          type="button"
+          aria-label={call.cameraEnabled ? "Turn camera off" : "Turn camera on"}
+          aria-pressed={!call.cameraEnabled}
+          disabled={call.audioOnly}
+          onClick={call.toggleCamera}
+        >
+          {call.cameraEnabled && !call.audioOnly ? <Video className="h-4 w-4" /> : <VideoOff className="h-4 w-4" />}
+        </Button>
+        <label className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+          <Switch checked={call.audioOnly} onCheckedChange={call.setAudioOnly} />
+          <span>Audio only</span>
+        </label>
+      </div>
+
+      {DEVICE_PICKERS.map(({ kind, placeholder, fallbackLabel }) => {
+        const options = call.devices.filter((device) => device.kind === kind);
+        if (options.length === 0) return null;
+        return (
+          <Select
+            key={kind}
+            value={selectedIds[kind] || undefined}
+            onValueChange={(deviceId) => call.selectDevice(kind, deviceId)}
+            disabled={kind === "videoinput" && call.audioOnly}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder={placeholder} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {deviceLabel(device, `${fallbackLabel} ${index + 1}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      })}
+    </div>
+  );
+}
+
+function deviceLabel(device: MediaDeviceOption, fallback: string) {
+  // Labels stay empty until the page has been granted media permission.
+  return device.label || fallback;
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { MicOff } from "lucide-react";
+
+type CallTileProps = {
+  stream: MediaStream | null;
+  label: string;
+  muted?: boolean;
+  audioMuted?: boolean;
+  videoOff?: boolean;
+  sinkId?: string;
+};
+
+export default function CallTile({
+  stream,
+  label,
+  muted = false,
+  audioMuted = false,
+  videoOff = false,
+  sinkId = "",
+}: CallTileProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || video.srcObject === stream) return;
+    video.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || muted || typeof video.setSinkId !== "function") return;
+    video.setSinkId(sinkId).catch(() => {
+      // the device was unplugged or the browser refused; keep the default
+    });
+  }, [sinkId, muted]);
+
+  return (
+    <div className="relative overflow-hidden rounded-md bg-black">
+      {/* Kept mounted while the camera is off so the peer stays audible. */}
+      <video
+        ref={videoRef}
+        autoPlay
+        muted={muted}
+        playsInline
+        className={videoOff ? "hidden" : "h-20 w-full object-cover"}
+      />
+      {videoOff ? (
+        <div className="flex h-20 w-full items-center justify-center text-lg font-semibold uppercase text-white/70">
+          {label.slice(0, 1)}
+        </div>
+      ) : null}
+      <span className="absolute bottom-1 left-1 flex max-w-[90%] items-center gap-1 truncate rounded bg-black/60 px-1.5 py-0.5 text-[10px] text-white">
+        {audioMuted ? <MicOff className="h-3 w-3 shrink-0" aria-label="Muted" /> : null}
+        {label}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { Switch } from "@/components/ui/switch";
+import { MAX_DUCKING_DEPTH, MIN_DUCKING_DEPTH, type DuckingSettings } from "@/lib/ducking";
+
+type DuckingControlsProps = {
+  settings: DuckingSettings;
+  onChange: (patch: Partial<DuckingSettings>) => void;
+};
+
+export default function DuckingControls({ settings, onChange }: DuckingControlsProps) {
+  return (
+    <div className="flex flex-col gap-2 text-xs text-muted-foreground">
+      <label className="flex items-center gap-2">
+        <Switch checked={settings.enabled} onCheckedChange={(enabled) => onChange({ enabled })} />
+        <span>Lower movie volume while people talk</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-12 shrink-0">Depth</span>
+        <input
+          type="range"
+          min={MIN_DUCKING_DEPTH}
+          max={MAX_DUCKING_DEPTH}
+          step={0.05}
+          value={settings.depth}
+          disabled={!settings.enabled}
+          onChange={(event) => onChange({ depth: Number(event.target.value) })}
+          className="flex-1 accent-foreground"
+        />
+        <span className="w-10 text-right tabular-nums">-{Math.round(settings.depth * 100)}%</span>
+      </label>
+    </div>
+  );
+}
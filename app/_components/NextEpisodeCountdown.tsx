@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SkipForward } from "lucide-react";
+
+type NextEpisodeCountdownProps = {
+  label: string;
+  /** When the room switches over, in server time. */
+  endsAt: number;
+  clockOffset: number;
+  disabled?: boolean;
+  onCancel: () => void;
+};
+
+export default function NextEpisodeCountdown({ label, endsAt, clockOffset, disabled = false, onCancel }: NextEpisodeCountdownProps) {
+  const [remaining, setRemaining] = useState(() => secondsLeft(endsAt, clockOffset));
+
+  useEffect(() => {
+    setRemaining(secondsLeft(endsAt, clockOffset));
+    const timer = window.setInterval(() => setRemaining(secondsLeft(endsAt, clockOffset)), 250);
+    return () => window.clearInterval(timer);
+  }, [endsAt, clockOffset]);
+
+  return (
+    <div className="absolute bottom-14 right-2 flex max-w-xs flex-col gap-1 rounded bg-black/80 p-2 text-[11px] text-white">
+      <span className="flex items-center gap-1 font-medium">
+        <SkipForward className="h-3.5 w-3.5" />
+        Next episode in {remaining}s
+      </span>
+      <span className="truncate text-white/80" title={label}>
+        {label}
+      </span>
+      <button
+        type="button"
+        className="self-end rounded bg-white/15 px-2 py-0.5 hover:bg-white/25 disabled:cursor-not-allowed disabled:opacity-50"
+        disabled={disabled}
+        onClick={onCancel}
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+function secondsLeft(endsAt: number, clockOffset: number) {
+  return Math.max(0, Math.ceil((endsAt - (Date.now() + clockOffset)) / 1000));
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+import ThemeToggle from "@/app/_components/ThemeToggle";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { storeRoomToken } from "@/lib/room-access";
+
+const apiBase = process.env.NEXT_PUBLIC_SERVER_URL ?? "http://localhost:3000";
+
+export default function RoomLauncher() {
+  const router = useRouter();
+  const [inviteInput, setInviteInput] = useState("");
+  const [error, setError] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  async function createRoom() {
+    setCreating(true);
+    setError("");
+    try {
+      const response = await fetch(`${apiBase}/api/rooms`, { method: "POST" });
+      if (!response.ok) throw new Error(`Room creation failed: ${response.status}`);
+      const data: { roomId: string; hostToken: string } = await response.json();
+      storeRoomToken(data.roomId, data.hostToken);
+      router.push(`/room/${encodeURIComponent(data.roomId)}`);
+    } catch {
+      setError("Could not create a room. Is the sync server running?");
+      setCreating(false);
+    }
+  }
+
+  function joinRoom() {
+    let url: URL;
+    try {
+      url = new URL(inviteInput.trim(), location.origin);
+    } catch {
+      setError("Paste the full invite link you were sent.");
+      return;
+    }
+    if (!url.pathname.startsWith("/room/") || !url.searchParams.get("invite")) {
+      setError("Paste the full invite link you were sent.");
+      return;
+    }
+    router.push(`${url.pathname}${url.search}`);
+  }
+
+  return (
+    <main className="layout-shell">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">Shared playback sync</p>
+          <h1 className="text-2xl font-semibold">Sync Player</h1>
+          <p className="text-sm text-muted-foreground">Create a room and share the link to watch together.</p>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <section className="grid gap-4 md:max-w-xl">
+        <Card>
+          <CardContent className="flex flex-col gap-4 p-4">
+            <Button type="button" onClick={createRoom} disabled={creating}>
+              {creating ? "Creating…" : "Create room"}
+            </Button>
+            <form
+              className="flex flex-col gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                joinRoom();
+              }}
+            >
+              <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Join with an invite</span>
+              <div className="flex gap-2">
+                <Input
+                  value={inviteInput}
+                  placeholder="https://…/room/…?invite=…"
+                  autoComplete="off"
+                  onChange={(event) => {
+                    setInviteInput(event.target.value);
+                    setError("");
+                  }}
+                />
+                <Button type="submit" variant="outline">
+                  Join
+                </Button>
+              </div>
+              {error ? <p className="text-xs text-muted-foreground">{error}</p> : null}
+            </form>
+          </CardContent>
+        </Card>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+type ScreenShareViewProps = {
+  stream: MediaStream | null;
+  label: string;
+  muted?: boolean;
+};
+
+export default function ScreenShareView({ stream, label, muted = false }: ScreenShareViewProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || video.srcObject === stream) return;
+    video.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center overflow-hidden rounded-lg bg-black">
+      <video ref={videoRef} autoPlay muted={muted} playsInline className="h-full w-full object-contain" />
+      {stream ? null : <p className="absolute text-sm text-white/70">Connecting to the shared screen…</p>}
+      <span className="absolute left-2 top-2 rounded bg-black/60 px-2 py-1 text-[11px] text-white">{label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Captions } from "lucide-react";
+
+import { Switch } from "@/components/ui/switch";
+import { SUBTITLES_OFF, languageLabel, type SubtitleOption } from "@/app/_components/useSubtitleTracks";
+import {
+  SUBTITLE_BACKGROUNDS,
+  SUBTITLE_SIZES,
+  type SubtitleBackground,
+  type SubtitlePreferences,
+  type SubtitleSize,
+} from "@/lib/subtitles";
+
+type SubtitleMenuProps = {
+  options: SubtitleOption[];
+  selectedId: number;
+  preferences: SubtitlePreferences;
+  synced: boolean;
+  syncDisabled?: boolean;
+  onSelect: (id: number) => void;
+  onStyleChange: (patch: { size?: SubtitleSize; background?: SubtitleBackground }) => void;
+  onSyncedChange: (synced: boolean) => void;
+};
+
+const SIZE_LABELS: Record<SubtitleSize, string> = { small: "S", medium: "M", large: "L" };
+const BACKGROUND_LABELS: Record<SubtitleBackground, string> = { none: "None", translucent: "Dim", solid: "Solid" };
+
+export default function SubtitleMenu({
+  options,
+  selectedId,
+  preferences,
+  synced,
+  syncDisabled = false,
+  onSelect,
+  onStyleChange,
+  onSyncedChange,
+}: SubtitleMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="absolute left-2 top-2 flex flex-col items-start gap-1 text-[11px] text-white">
+      <button
+        type="button"
+        className="flex items-center gap-1 rounded bg-black/60 px-2 py-1"
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        <Captions className="h-3.5 w-3.5" />
+        {selectedId === SUBTITLES_OFF ? "Subtitles off" : options.find((option) => option.id === selectedId)?.name}
+      </button>
+      {open ? (
+        <div className="flex w-56 flex-col gap-2 rounded bg-black/80 p-2">
+          <div className="flex flex-col">
+            <MenuChoice active={selectedId === SUBTITLES_OFF} onClick={() => onSelect(SUBTITLES_OFF)}>
+              Off
+            </MenuChoice>
+            {options.map((option) => (
+              <MenuChoice key={option.id} active={option.id === selectedId} onClick={() => onSelect(option.id)}>
+                <span className="truncate">{option.name}</span>
+                {option.language && option.name !== languageLabel(option.language) ? (
+                  <span className="shrink-0 text-white/50">{languageLabel(option.language)}</span>
+                ) : null}
+              </MenuChoice>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-16 shrink-0 text-white/60">Size</span>
+            {SUBTITLE_SIZES.map((size) => (
+              <MenuChoice key={size} active={preferences.size === size} onClick={() => onStyleChange({ size })}>
+                {SIZE_LABELS[size]}
+              </MenuChoice>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-16 shrink-0 text-white/60">Background</span>
+            {SUBTITLE_BACKGROUNDS.map((background) => (
+              <MenuChoice
+                key={background}
+                active={preferences.background === background}
+                onClick={() => onStyleChange({ background })}
+              >
+                {BACKGROUND_LABELS[background]}
+              </MenuChoice>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <Switch checked={synced} disabled={syncDisabled} onCheckedChange={onSyncedChange} />
+            <span>Same subtitles for everyone</span>
+          </label>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function MenuChoice({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={active}
+      className={`flex items-center justify-between gap-2 rounded px-2 py-1 text-left ${
+        active ? "bg-white/20" : "hover:bg-white/10"
+      }`}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
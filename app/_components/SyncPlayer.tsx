@@ -1,18 +1,54 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { io, type Socket } from "socket.io-client";
 import Hls from "hls.js";
 
+import CallControls from "@/app/_components/CallControls";
+import CallTile from "@/app/_components/CallTile";
+import DuckingControls from "@/app/_components/DuckingControls";
+import NextEpisodeCountdown from "@/app/_components/NextEpisodeCountdown";
+import ScreenShareView from "@/app/_components/ScreenShareView";
+import SubtitleMenu from "@/app/_components/SubtitleMenu";
 import ThemeToggle from "@/app/_components/ThemeToggle";
+import TimelineBar, { type TimelineMarker } from "@/app/_components/TimelineBar";
+import VideoLibrary, { type LibraryPage, type LibraryQuery, type VideoMetadata } from "@/app/_components/VideoLibrary";
+import WatchQueue, { type QueueItem } from "@/app/_components/WatchQueue";
+import { useAudioDucking } from "@/app/_components/useAudioDucking";
+import { useMeshCall } from "@/app/_components/useMeshCall";
+import { useScreenShare } from "@/app/_components/useScreenShare";
+import { useSubtitleTracks } from "@/app/_components/useSubtitleTracks";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-
-const SYNC_THRESHOLD = 3.5;
+import { Switch } from "@/components/ui/switch";
+import { addClockSample, bestClockSample, createClockSample, type ClockSample } from "@/lib/clock-sync";
+import { DEFAULT_DUCKING, clampDuckingDepth, loadDuckingSettings, saveDuckingSettings, type DuckingSettings } from "@/lib/ducking";
+import { describeEpisode, findNextEpisode, type EpisodeInfo, type IntroRange } from "@/lib/episodes";
+import { loadIdentity, saveDisplayName, type Identity } from "@/lib/identity";
+import { clearRoomToken, loadRoomToken, storeRoomToken, type RoomRole } from "@/lib/room-access";
+import {
+  DEFAULT_SUBTITLE_PREFERENCES,
+  loadSubtitlePreferences,
+  normalizeSubtitleChoice,
+  saveSubtitlePreferences,
+  type SubtitlePreferences,
+} from "@/lib/subtitles";
+import { loadThumbnailTrack, type ThumbnailCue } from "@/lib/thumbnails";
+import { formatTimecode } from "@/lib/time";
+
+const HARD_SYNC_THRESHOLD = 2;
+const SOFT_SYNC_THRESHOLD = 0.15;
+const MAX_RATE_NUDGE = 0.05;
+const RATE_CORRECTION_WINDOW_S = 3;
 const HEARTBEAT_MS = 3000;
+const CLOCK_SYNC_MS = 30000;
+const CLOCK_SYNC_SAMPLES = 5;
+const CLOCK_PING_TIMEOUT_MS = 2000;
+const BUFFERING_REPORT_DELAY_MS = 500;
+const PROGRESS_SAVE_MS = 15000;
+const MIN_RESUME_SECONDS = 5;
 const VERSION_POLL_MS = 5000;
 const STATE_CACHE_KEY = "pairwatch:lastState";
 
@@ -22,6 +58,19 @@ type VideoEntry = {
   hlsPath: string | null;
   hlsMasterPath: string | null;
   hlsSubtitles: boolean;
+  thumbnailsPath: string | null;
+  sizeBytes: number | null;
+  addedAt: string | null;
+  metadata: VideoMetadata | null;
+  posterPath: string | null;
+  episode: EpisodeInfo | null;
+  intro: IntroRange | null;
+};
+
+type AutoplayCountdown = {
+  video: string;
+  /** Server time the next episode starts at. */
+  endsAt: number;
 };
 
 type PlaybackState = {
@@ -29,6 +78,8 @@ type PlaybackState = {
   paused: boolean;
   time: number;
   playbackRate: number;
+  lastUpdatedAt?: number;
+  serverAt?: number;
   reason?: string;
 };
 
@@ -36,11 +87,29 @@ type ChatMessage = {
   id: string;
   text: string;
   sender: string;
+  senderName?: string;
   at: number;
+  video?: string;
+  videoTime?: number;
   reactions?: Record<string, number>;
   reactionUsers?: Record<string, string[]>;
 };
 
+type ProgressEntry = {
+  time: number;
+  duration: number;
+  finished: boolean;
+  finishedAt: number | null;
+  updatedAt: number;
+};
+
+type RoomMember = {
+  userId: string;
+  name: string;
+  role?: RoomRole;
+  connections: number;
+};
+
 type FloatingReaction = {
   id: string;
   emoji: string;
@@ -48,50 +117,178 @@ type FloatingReaction = {
   size: number;
 };
 
-export default function SyncPlayer() {
+type SyncPlayerProps = {
+  roomId: string;
+  inviteToken?: string;
+};
+
+export default function SyncPlayer({ roomId, inviteToken }: SyncPlayerProps) {
   const playerRef = useRef<HTMLVideoElement | null>(null);
   const playerWrapRef = useRef<HTMLDivElement | null>(null);
-  const localCallRef = useRef<HTMLVideoElement | null>(null);
-  const remoteCallRef = useRef<HTMLVideoElement | null>(null);
   const socketRef = useRef<Socket | null>(null);
   const hlsRef = useRef<Hls | null>(null);
   const isApplyingRemoteRef = useRef(false);
   const pendingRemoteRef = useRef<PlaybackState | null>(null);
   const lastLocalUpdateRef = useRef(0);
   const requestedVideoRef = useRef<string>("");
+  const videosRef = useRef<VideoEntry[]>([]);
+  const selectedVideoRef = useRef<string>("");
   const hasRemoteStateRef = useRef(false);
   const serverVersionRef = useRef<string | null>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const makingOfferRef = useRef(false);
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const clockOffsetRef = useRef(0);
+  const baseRateRef = useRef(1);
+  const correctionRateRef = useRef<number | null>(null);
+  const identityRef = useRef<Identity | null>(null);
+  const waitForAllRef = useRef(false);
+  const syncSubtitlesRef = useRef(false);
+  const bufferingRef = useRef(false);
+  const bufferingTimerRef = useRef<number | null>(null);
+  const lastProgressSaveRef = useRef(0);
+  const shareTokenRef = useRef<string | null>(null);
+  const progressTokenRef = useRef<string | null>(null);
+  const controlsLockedRef = useRef(false);
+  const presenterActiveRef = useRef(false);
+  const suspendedStateRef = useRef<PlaybackState | null>(null);
+  const seekPreviewTimerRef = useRef<number | null>(null);
 
   const [videos, setVideos] = useState<VideoEntry[]>([]);
   const [selectedVideo, setSelectedVideo] = useState("");
-  const [peers, setPeers] = useState(0);
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
   const [syncState, setSyncState] = useState("Idle");
+  const [latency, setLatency] = useState<number | null>(null);
+  const [waitForAll, setWaitForAll] = useState(false);
+  const [syncSubtitles, setSyncSubtitles] = useState(false);
+  const [waitingFor, setWaitingFor] = useState<string[]>([]);
   const [status, setStatus] = useState("Connecting");
   const [hlsNote, setHlsNote] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [floatingReactions, setFloatingReactions] = useState<FloatingReaction[]>([]);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [position, setPosition] = useState({ currentTime: 0, duration: 0 });
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [autoplay, setAutoplay] = useState<AutoplayCountdown | null>(null);
+  const [progress, setProgress] = useState<Record<string, ProgressEntry>>({});
+  const [role, setRole] = useState<RoomRole | null>(null);
+  const [roomLocked, setRoomLocked] = useState(false);
+  const [activeSocket, setActiveSocket] = useState<Socket | null>(null);
+  const [ducking, setDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+  const [thumbnails, setThumbnails] = useState<ThumbnailCue[]>([]);
+  const [seekPreview, setSeekPreview] = useState<number | null>(null);
+  const [subtitlePrefs, setSubtitlePrefs] = useState<SubtitlePreferences>(DEFAULT_SUBTITLE_PREFERENCES);
+
+  const call = useMeshCall(activeSocket, roomId);
+  const { ducked } = useAudioDucking(
+    playerRef,
+    call.remotePeers.map((peer) => peer.stream),
+    ducking
+  );
+
+  const share = useScreenShare(activeSocket, roomId);
+  const subtitles = useSubtitleTracks(playerRef, hlsRef);
+
+  const controlsLocked = roomLocked && role !== "host";
+  controlsLockedRef.current = controlsLocked;
+  // While someone presents, the shared screen replaces the movie and room
+  // playback sync is suspended until they stop.
+  const presenterActive = Boolean(share.presenter);
+  presenterActiveRef.current = presenterActive;
+  const playerControlsDisabled = controlsLocked || presenterActive;
 
   const selectedEntry = useMemo(
     () => videos.find((video) => video.name === selectedVideo) ?? null,
     [videos, selectedVideo]
   );
 
+  const intro = selectedEntry?.intro ?? null;
+  // Hidden for the last second so it doesn't flash as the intro ends on its own.
+  const showSkipIntro = Boolean(intro && position.currentTime >= intro.start && position.currentTime < intro.end - 1);
+  const autoplayEntry = autoplay ? videos.find((video) => video.name === autoplay.video) ?? null : null;
+
+  const timelineMarkers = useMemo<TimelineMarker[]>(
+    () =>
+      messages
+        .filter((message) => message.video === selectedVideo && typeof message.videoTime === "number")
+        .map((message) => ({
+          id: message.id,
+          time: message.videoTime as number,
+          label: `${message.senderName ?? "Peer"}: ${message.text}`,
+        })),
+    [messages, selectedVideo]
+  );
+
   useEffect(() => {
+    identityRef.current = loadIdentity();
+    setIdentity(identityRef.current);
+    setDucking(loadDuckingSettings());
+    const storedSubtitles = loadSubtitlePreferences();
+    setSubtitlePrefs(storedSubtitles);
+    if (storedSubtitles.choice !== undefined) subtitles.applyChoice(storedSubtitles.choice);
     loadVideos();
-    const socket = io(apiBase);
+    if (inviteToken) {
+      storeRoomToken(roomId, inviteToken);
+      history.replaceState(null, "", `/room/${encodeURIComponent(roomId)}`);
+    }
+    const socket = io(apiBase, { auth: { token: loadRoomToken(roomId) ?? "" } });
     socketRef.current = socket;
+    setActiveSocket(socket);
+
+    socket.on("connect_error", (err) => {
+      if (err.message !== "unauthorized") return;
+      clearRoomToken(roomId);
+      setStatus("Access denied");
+      setHlsNote("This room needs a valid invite link. Ask the host for a new one.");
+    });
+
+    socket.on("room-error", ({ error }: { error?: string }) => {
+      setStatus("Access denied");
+      setHlsNote(error ?? "Could not join this room.");
+    });
+
+    socket.on(
+      "room-access",
+      ({
+        role: grantedRole,
+        locked,
+        inviteToken: shareToken,
+        progressToken,
+      }: {
+        role?: RoomRole;
+        locked?: boolean;
+        inviteToken?: string;
+        progressToken?: string;
+      }) => {
+        setRole(grantedRole ?? null);
+        setRoomLocked(Boolean(locked));
+        shareTokenRef.current = shareToken ?? null;
+        // Progress needs the secret this connection gets on joining, so it's loaded once joined.
+        progressTokenRef.current = progressToken ?? null;
+        loadProgress();
+      }
+    );
+
+    socket.on("room-lock", ({ locked }: { locked?: boolean }) => {
+      setRoomLocked(Boolean(locked));
+    });
+
+    socket.on("state-rejected", () => {
+      setHlsNote("Playback controls are locked by the host.");
+    });
 
     socket.on("connect", () => {
       setStatus("Connected");
-      socket.emit("request-state", { requester: socket.id });
+      socket.emit("join-room", { roomId, ...identityRef.current });
+      syncClock().catch(() => {});
     });
 
-    socket.on("room-info", ({ count }) => {
-      setPeers(count ?? 0);
+    socket.on("disconnect", () => {
+      setStatus("Reconnecting");
+    });
+
+    socket.on("room-info", ({ roomId: infoRoomId, members: roster }: { roomId?: string; members?: RoomMember[] }) => {
+      if (infoRoomId && infoRoomId !== roomId) return;
+      setMembers(Array.isArray(roster) ? roster : []);
     });
 
     socket.on("request-state", ({ requester }) => {
@@ -99,10 +296,10 @@ export default function SyncPlayer() {
       socket.emit("reply-state", { to: requester, state: collectState() });
     });
 
-    socket.on("state", ({ state }) => {
+    socket.on("state", ({ state, at, origin }: { state: PlaybackState; at?: number; origin?: string }) => {
       if (!state) return;
-      if (Date.now() - lastLocalUpdateRef.current < 150) return;
-      applyRemoteState(state);
+      if (origin !== "server" && Date.now() - lastLocalUpdateRef.current < 150) return;
+      applyRemoteState({ ...state, serverAt: at });
     });
 
     socket.on("server-version", ({ version }) => {
@@ -117,75 +314,74 @@ export default function SyncPlayer() {
       }
     });
 
+    socket.on("chat-history", ({ roomId: historyRoomId, messages: history }: { roomId?: string; messages?: ChatMessage[] }) => {
+      if (historyRoomId && historyRoomId !== roomId) return;
+      setMessages(Array.isArray(history) ? history : []);
+    });
+
     socket.on("chat", (message: ChatMessage) => {
-      if (!message) return;
-      const safeMessage = message.id
-        ? message
-        : { ...message, id: `${message.sender}-${message.at}` };
-      setMessages((prev) => [...prev, safeMessage]);
+      if (!message?.id) return;
+      setMessages((prev) => {
+        const index = prev.findIndex((msg) => msg.id === message.id);
+        if (index === -1) return [...prev, message];
+        const next = prev.slice();
+        next[index] = message;
+        return next;
+      });
     });
 
     socket.on(
       "chat-reaction",
-      ({ id, emoji, sender, action }: { id: string; emoji: string; sender: string; action: "add" | "remove" }) => {
-        if (!id || !emoji || !sender || !action) return;
+      ({
+        id,
+        reactions,
+        reactionUsers,
+      }: {
+        id: string;
+        reactions?: Record<string, number>;
+        reactionUsers?: Record<string, string[]>;
+      }) => {
+        if (!id) return;
         setMessages((prev) =>
-          prev.map((msg) => {
-            if (msg.id !== id) return msg;
-            const reactionUsers = { ...(msg.reactionUsers ?? {}) };
-            const currentUsers = new Set(reactionUsers[emoji] ?? []);
-            if (action === "add") {
-              currentUsers.add(sender);
-            } else {
-              currentUsers.delete(sender);
-            }
-            reactionUsers[emoji] = Array.from(currentUsers);
-            const reactions = { ...(msg.reactions ?? {}) };
-            reactions[emoji] = currentUsers.size;
-            return { ...msg, reactions, reactionUsers };
-          })
+          prev.map((msg) => (msg.id === id ? { ...msg, reactions: reactions ?? {}, reactionUsers: reactionUsers ?? {} } : msg))
         );
       }
     );
 
-    socket.on("call-offer", async ({ offer }) => {
-      if (!offer) return;
-      await ensurePeerConnection();
-      const pc = peerConnectionRef.current;
-      if (!pc) return;
-      const readyForOffer = pc.signalingState === "stable" || pc.signalingState === "have-local-offer";
-      if (!readyForOffer) {
-        try {
-          await pc.setLocalDescription({ type: "rollback" });
-        } catch {
-          // ignore rollback failures
+    socket.on(
+      "room-settings",
+      ({ waitForAll: enabled, syncSubtitles: subtitlesSynced }: { waitForAll?: boolean; syncSubtitles?: boolean }) => {
+        waitForAllRef.current = Boolean(enabled);
+        setWaitForAll(Boolean(enabled));
+        syncSubtitlesRef.current = Boolean(subtitlesSynced);
+        setSyncSubtitles(Boolean(subtitlesSynced));
+        if (enabled && bufferingRef.current) {
+          socket.emit("buffering", { buffering: true });
         }
       }
-      await pc.setRemoteDescription(offer);
-      const answer = await peerConnectionRef.current?.createAnswer();
-      if (!answer) return;
-      await peerConnectionRef.current?.setLocalDescription(answer);
-      socket.emit("call-answer", { answer });
-    });
+    );
 
-    socket.on("call-answer", async ({ answer }) => {
-      if (!answer) return;
-      await peerConnectionRef.current?.setRemoteDescription(answer);
+    socket.on("subtitle-track", ({ track }: { track?: unknown }) => {
+      if (!syncSubtitlesRef.current) return;
+      subtitles.applyChoice(normalizeSubtitleChoice(track));
     });
 
-    socket.on("call-ice", async ({ candidate }) => {
-      if (!candidate) return;
-      try {
-        await peerConnectionRef.current?.addIceCandidate(candidate);
-      } catch {
-        // ignore ICE errors
-      }
+    socket.on("buffering-status", ({ waitingFor: ids }: { waitingFor?: string[] }) => {
+      setWaitingFor(Array.isArray(ids) ? ids : []);
     });
 
-    socket.on("call-end", () => {
-      endCall();
+    socket.on("queue", ({ items }: { items?: QueueItem[] }) => {
+      setQueue(Array.isArray(items) ? items : []);
     });
 
+    socket.on(
+      "autoplay",
+      ({ autoplay: next, cancelledBy }: { autoplay: AutoplayCountdown | null; cancelledBy?: string | null }) => {
+        setAutoplay(next ?? null);
+        if (cancelledBy) setHlsNote(`${cancelledBy} cancelled the next episode.`);
+      }
+    );
+
     socket.on("player-reaction", ({ emoji }: { emoji: string }) => {
       if (!emoji) return;
       spawnReaction(emoji);
@@ -194,13 +390,22 @@ export default function SyncPlayer() {
     const heartbeat = window.setInterval(() => {
       const video = playerRef.current;
       if (!video || video.paused) return;
-      pushState("heartbeat");
+      if (!controlsLockedRef.current && !presenterActiveRef.current) {
+        pushState("heartbeat");
+      }
+      if (Date.now() - lastProgressSaveRef.current >= PROGRESS_SAVE_MS) {
+        saveProgress();
+      }
     }, HEARTBEAT_MS);
 
     const versionPoll = window.setInterval(() => {
       checkVersion(true).catch(() => {});
     }, VERSION_POLL_MS);
 
+    const clockSync = window.setInterval(() => {
+      syncClock().catch(() => {});
+    }, CLOCK_SYNC_MS);
+
     window.addEventListener("beforeunload", handleBeforeUnload);
     const handleFullscreenChange = () => {
       setIsFullscreen(Boolean(document.fullscreenElement));
@@ -210,33 +415,66 @@ export default function SyncPlayer() {
     return () => {
       window.clearInterval(heartbeat);
       window.clearInterval(versionPoll);
+      window.clearInterval(clockSync);
       window.removeEventListener("beforeunload", handleBeforeUnload);
       document.removeEventListener("fullscreenchange", handleFullscreenChange);
       socket.disconnect();
+      setActiveSocket(null);
     };
-  }, []);
+  }, [roomId, inviteToken]);
 
   useEffect(() => {
     const video = playerRef.current;
     if (!video) return;
 
     const handlePlay = () => pushState("play");
-    const handlePause = () => pushState("pause");
+    const handlePause = () => {
+      pushState("pause");
+      saveProgress();
+    };
     const handleSeeked = () => pushState("seeked");
-    const handleRateChange = () => pushState("ratechange");
+    const handleRateChange = () => {
+      const current = playerRef.current?.playbackRate ?? 1;
+      const correction = correctionRateRef.current;
+      correctionRateRef.current = null;
+      if (correction !== null && Math.abs(current - correction) < 0.001) return;
+      baseRateRef.current = current;
+      pushState("ratechange");
+    };
     const handleLoaded = () => {
       if (pendingRemoteRef.current) {
         applyRemoteState(pendingRemoteRef.current);
         pendingRemoteRef.current = null;
       }
-      showFirstTextTrack();
+      subtitles.refresh();
+    };
+    const handleTimeUpdate = () => {
+      const current = playerRef.current;
+      if (!current) return;
+      setPosition({ currentTime: current.currentTime, duration: current.duration || 0 });
+    };
+    const handleEnded = () => {
+      saveProgress(true);
+      // The server plays the queue first and only counts down to the next episode without one.
+      socketRef.current?.emit("queue-advance", {
+        fromVideo: selectedVideoRef.current,
+        nextEpisode: findNextEpisode(videosRef.current, selectedVideoRef.current)?.name ?? null,
+      });
     };
+    const handleWaiting = () => scheduleBufferingReport();
+    const handleCanPlay = () => reportBuffering(false);
 
     video.addEventListener("play", handlePlay);
     video.addEventListener("pause", handlePause);
     video.addEventListener("seeked", handleSeeked);
     video.addEventListener("ratechange", handleRateChange);
     video.addEventListener("loadedmetadata", handleLoaded);
+    video.addEventListener("waiting", handleWaiting);
+    video.addEventListener("ended", handleEnded);
+    video.addEventListener("timeupdate", handleTimeUpdate);
+    video.addEventListener("durationchange", handleTimeUpdate);
+    video.addEventListener("canplay", handleCanPlay);
+    video.addEventListener("playing", handleCanPlay);
 
     return () => {
       video.removeEventListener("play", handlePlay);
@@ -244,9 +482,26 @@ export default function SyncPlayer() {
       video.removeEventListener("seeked", handleSeeked);
       video.removeEventListener("ratechange", handleRateChange);
       video.removeEventListener("loadedmetadata", handleLoaded);
+      video.removeEventListener("waiting", handleWaiting);
+      video.removeEventListener("ended", handleEnded);
+      video.removeEventListener("timeupdate", handleTimeUpdate);
+      video.removeEventListener("durationchange", handleTimeUpdate);
+      video.removeEventListener("canplay", handleCanPlay);
+      video.removeEventListener("playing", handleCanPlay);
+      clearBufferingTimer();
     };
   }, []);
 
+  useEffect(() => {
+    if (share.presenter) {
+      playerRef.current?.pause();
+      return;
+    }
+    const suspended = suspendedStateRef.current;
+    suspendedStateRef.current = null;
+    if (suspended) applyRemoteState(suspended);
+  }, [share.presenter]);
+
   useEffect(() => {
     const video = playerRef.current;
     if (!video || !selectedEntry?.hlsMasterPath) {
@@ -277,8 +532,13 @@ export default function SyncPlayer() {
         levelLoadingMaxRetryTimeout: 8000,
       });
       hlsRef.current = hls;
-      hls.on(Hls.Events.MANIFEST_PARSED, () => enableHlsSubtitles(hls));
-      hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, () => enableHlsSubtitles(hls));
+      hls.on(Hls.Events.MANIFEST_PARSED, () => subtitles.refresh());
+      hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, () => subtitles.refresh());
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.details === Hls.ErrorDetails.BUFFER_STALLED_ERROR) {
+          scheduleBufferingReport();
+        }
+      });
       hls.loadSource(source);
       hls.attachMedia(video);
     } else {
@@ -295,25 +555,39 @@ export default function SyncPlayer() {
     };
   }, [selectedEntry]);
 
+  useEffect(() => {
+    setThumbnails([]);
+    const trackUrl = selectedEntry?.thumbnailsPath;
+    if (!trackUrl) return;
+    let cancelled = false;
+    loadThumbnailTrack(trackUrl).then((cues) => {
+      if (!cancelled) setThumbnails(cues);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedEntry]);
+
   const apiBase = process.env.NEXT_PUBLIC_SERVER_URL ?? "http://localhost:3000";
 
   async function loadVideos() {
     try {
       const response = await fetch(`${apiBase}/api/videos`, { cache: "no-store" });
       const data = await response.json();
-      const list: VideoEntry[] = (data.files ?? []).filter((video: VideoEntry) => video.hls);
-      const resolved = list.map((video) => ({
-        ...video,
-        hlsPath: resolveUrl(video.hlsPath),
-        hlsMasterPath: resolveUrl(video.hlsMasterPath ?? video.hlsPath),
-      }));
-      if (!list.length) {
+      const entries: VideoEntry[] = (data.files ?? []).map(resolveEntry);
+      const resolved = entries.filter((video) => video.hls);
+      if (!resolved.length) {
         setHlsNote("No HLS-ready videos. Run `pnpm hls` and reload.");
         return;
       }
+      videosRef.current = resolved;
       setVideos(resolved);
-      const initialVideo = requestedVideoRef.current || resolved[0].name;
-      setSelectedVideo(initialVideo);
+      const pendingVideo = pendingRemoteRef.current?.video;
+      const initialVideo =
+        requestedVideoRef.current ||
+        (pendingVideo && resolved.some((entry) => entry.name === pendingVideo) ? pendingVideo : "") ||
+        resolved[0].name;
+      selectVideo(initialVideo);
       if (!hasRemoteStateRef.current && !requestedVideoRef.current) {
         restoreCachedState(resolved);
       }
@@ -322,21 +596,103 @@ export default function SyncPlayer() {
     }
   }
 
-  function pushState(reason: string) {
-    if (isApplyingRemoteRef.current) return;
+  // The library browser pages through the server; playback keeps the full list loaded above.
+  const loadLibraryPage = useCallback(async (query: LibraryQuery): Promise<LibraryPage> => {
+    const params = new URLSearchParams({
+      folder: query.folder,
+      q: query.q,
+      sort: query.sort,
+      page: String(query.page),
+      pageSize: String(query.pageSize),
+    });
+    const response = await fetch(`${apiBase}/api/videos?${params}`, { cache: "no-store" });
+    if (!response.ok) throw new Error(`Library returned ${response.status}`);
+    const data: LibraryPage = await response.json();
+    return { ...data, files: data.files.map((video) => resolveEntry(video as VideoEntry)) };
+  }, []);
+
+  function resolveEntry(video: VideoEntry): VideoEntry {
+    return {
+      ...video,
+      hlsPath: resolveUrl(video.hlsPath),
+      hlsMasterPath: resolveUrl(video.hlsMasterPath ?? video.hlsPath),
+      thumbnailsPath: video.thumbnailsPath ? resolveUrl(video.thumbnailsPath) : null,
+      posterPath: video.posterPath ? resolveUrl(video.posterPath) : null,
+    };
+  }
+
+  function selectVideo(name: string) {
+    selectedVideoRef.current = name;
+    setSelectedVideo(name);
+  }
+
+  async function loadProgress() {
+    const userId = identityRef.current?.userId;
+    const token = progressTokenRef.current;
+    if (!userId || !token) return;
+    try {
+      const response = await fetch(`${apiBase}/api/progress?userId=${encodeURIComponent(userId)}`, {
+        cache: "no-store",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setProgress(data.progress ?? {});
+    } catch {
+      // resume markers are optional
+    }
+  }
+
+  function saveProgress(finished = false) {
+    const userId = identityRef.current?.userId;
+    const player = playerRef.current;
+    const video = selectedVideoRef.current;
+    const token = progressTokenRef.current;
+    if (!userId || !token || !player || !video || !Number.isFinite(player.duration)) return;
+    lastProgressSaveRef.current = Date.now();
+    fetch(`${apiBase}/api/progress`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ userId, video, time: player.currentTime, duration: player.duration, finished }),
+      keepalive: true,
+    })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data?.progress) {
+          setProgress((prev) => ({ ...prev, [video]: data.progress }));
+        }
+      })
+      .catch(() => {});
+  }
+
+  function resumeTimeFor(video: string) {
+    const entry = progress[video];
+    if (!entry || entry.finished || entry.time < MIN_RESUME_SECONDS) return 0;
+    return entry.time;
+  }
+
+  function describeProgress(video: string) {
+    const entry = progress[video];
+    if (!entry) return "";
+    if (entry.finished) return "watched";
+    if (entry.time >= MIN_RESUME_SECONDS) return `continue from ${formatTimecode(entry.time)}`;
+    return "";
+  }
+
+  function pushState(reason: string, overrides: Partial<PlaybackState> = {}) {
+    if (isApplyingRemoteRef.current || presenterActiveRef.current) return;
     lastLocalUpdateRef.current = Date.now();
-    const state = collectState();
-    state.reason = reason;
+    const state = { ...collectState(), ...overrides, reason };
     socketRef.current?.emit("state", { state });
   }
 
   function collectState(): PlaybackState {
     const video = playerRef.current;
     return {
-      video: selectedVideo,
+      video: selectedVideoRef.current,
       paused: video?.paused ?? true,
       time: video?.currentTime ?? 0,
-      playbackRate: video?.playbackRate ?? 1,
+      playbackRate: video ? baseRateRef.current : 1,
     };
   }
 
@@ -345,7 +701,15 @@ export default function SyncPlayer() {
     if (!video) return;
 
     hasRemoteStateRef.current = true;
-    if (state.video && !videos.find((entry) => entry.name === state.video)) {
+    if (presenterActiveRef.current) {
+      suspendedStateRef.current = state;
+      return;
+    }
+    if (!videosRef.current.length) {
+      pendingRemoteRef.current = state;
+      return;
+    }
+    if (state.video && !videosRef.current.find((entry) => entry.name === state.video)) {
       setHlsNote(`Video not available on this device: ${state.video}`);
       return;
     }
@@ -353,20 +717,29 @@ export default function SyncPlayer() {
     isApplyingRemoteRef.current = true;
     setSyncState(state.reason ? `Syncing (${state.reason})` : "Syncing");
 
-    if (state.video && state.video !== selectedVideo) {
+    if (state.video && state.video !== selectedVideoRef.current) {
       requestedVideoRef.current = state.video;
-      setSelectedVideo(state.video);
+      selectVideo(state.video);
       pendingRemoteRef.current = state;
       isApplyingRemoteRef.current = false;
       return;
     }
 
-    if (Math.abs(video.currentTime - state.time) > SYNC_THRESHOLD) {
-      video.currentTime = state.time;
-    }
-
-    if (video.playbackRate !== state.playbackRate) {
-      video.playbackRate = state.playbackRate;
+    const targetTime = estimateRemoteTime(state);
+    const drift = targetTime - video.currentTime;
+    baseRateRef.current = state.playbackRate || 1;
+    let correcting = false;
+    if (Math.abs(drift) > HARD_SYNC_THRESHOLD) {
+      video.currentTime = targetTime;
+      applyPlaybackRate(baseRateRef.current);
+      if (state.reason === "seek" || state.reason === "seeked") {
+        showSeekPreview(targetTime);
+      }
+    } else if (!state.paused && Math.abs(drift) > SOFT_SYNC_THRESHOLD) {
+      correcting = true;
+      nudgePlaybackRate(drift);
+    } else {
+      applyPlaybackRate(baseRateRef.current);
     }
 
     if (state.paused) {
@@ -375,14 +748,160 @@ export default function SyncPlayer() {
       video.play().catch(() => {});
     }
 
-    cacheState(state);
+    cacheState({ ...state, time: targetTime });
 
     window.setTimeout(() => {
       isApplyingRemoteRef.current = false;
-      setSyncState("In sync");
+      setSyncState(correcting ? `Correcting drift (${drift > 0 ? "+" : ""}${drift.toFixed(2)}s)` : "In sync");
     }, 100);
   }
 
+  // Flashes the frame a peer jumped to above the timeline.
+  function showSeekPreview(time: number) {
+    setSeekPreview(time);
+    if (seekPreviewTimerRef.current !== null) window.clearTimeout(seekPreviewTimerRef.current);
+    seekPreviewTimerRef.current = window.setTimeout(() => {
+      seekPreviewTimerRef.current = null;
+      setSeekPreview(null);
+    }, 2500);
+  }
+
+  function scheduleBufferingReport() {
+    if (bufferingRef.current || bufferingTimerRef.current !== null) return;
+    // Short stalls after a seek resolve on their own; only report real stalls.
+    bufferingTimerRef.current = window.setTimeout(() => {
+      bufferingTimerRef.current = null;
+      const video = playerRef.current;
+      if (!video || video.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) return;
+      reportBuffering(true);
+    }, BUFFERING_REPORT_DELAY_MS);
+  }
+
+  function clearBufferingTimer() {
+    if (bufferingTimerRef.current === null) return;
+    window.clearTimeout(bufferingTimerRef.current);
+    bufferingTimerRef.current = null;
+  }
+
+  function reportBuffering(buffering: boolean) {
+    if (!buffering) clearBufferingTimer();
+    if (bufferingRef.current === buffering) return;
+    bufferingRef.current = buffering;
+    if (!waitForAllRef.current) return;
+    socketRef.current?.emit("buffering", { buffering });
+  }
+
+  function toggleWaitForAll(enabled: boolean) {
+    socketRef.current?.emit("room-settings", { waitForAll: enabled });
+  }
+
+  function toggleSyncSubtitles(enabled: boolean) {
+    const socket = socketRef.current;
+    if (!socket) return;
+    socket.emit("room-settings", { syncSubtitles: enabled });
+    // Whoever turns syncing on sets the starting track for everyone.
+    if (enabled) {
+      const current = subtitles.options.find((option) => option.id === subtitles.selectedId);
+      socket.emit("subtitle-track", { track: current ? { name: current.name, language: current.language } : null });
+    }
+  }
+
+  function chooseSubtitle(id: number) {
+    const choice = subtitles.select(id);
+    updateSubtitlePrefs({ choice });
+    if (syncSubtitlesRef.current) {
+      socketRef.current?.emit("subtitle-track", { track: choice });
+    }
+  }
+
+  function updateSubtitlePrefs(patch: Partial<SubtitlePreferences>) {
+    setSubtitlePrefs((prev) => {
+      const next = { ...prev, ...patch };
+      saveSubtitlePreferences(next);
+      return next;
+    });
+  }
+
+  function describeWaiting(ids: string[]) {
+    const names = ids.map((id) => (id === identity?.userId ? "you" : memberName(id)));
+    return `Waiting for ${names.join(", ")}`;
+  }
+
+  function describeMember(member: RoomMember) {
+    const tags = [member.userId === identity?.userId ? "you" : "", member.role === "host" ? "host" : ""].filter(Boolean);
+    return tags.length ? `${member.name} (${tags.join(", ")})` : member.name;
+  }
+
+  function memberName(userId: string, fallback = "Peer") {
+    return members.find((member) => member.userId === userId)?.name ?? fallback;
+  }
+
+  function renameSelf(value: string) {
+    const current = identityRef.current;
+    const name = saveDisplayName(value);
+    if (!current || !name || name === current.name) return;
+    identityRef.current = { ...current, name };
+    setIdentity(identityRef.current);
+    socketRef.current?.emit("update-profile", { name });
+  }
+
+  /**
+   * Converges on the remote position by briefly speeding up or slowing down
+   * instead of seeking, so small drift never causes a jump or a rebuffer.
+   */
+  function nudgePlaybackRate(drift: number) {
+    const nudge = Math.max(-MAX_RATE_NUDGE, Math.min(MAX_RATE_NUDGE, drift / RATE_CORRECTION_WINDOW_S));
+    applyPlaybackRate(baseRateRef.current * (1 + nudge));
+  }
+
+  function applyPlaybackRate(rate: number) {
+    const video = playerRef.current;
+    if (!video || Math.abs(video.playbackRate - rate) < 0.001) return;
+    // Marks the change as internal so the ratechange listener does not echo it to the room.
+    correctionRateRef.current = rate;
+    video.playbackRate = rate;
+  }
+
+  /**
+   * Extrapolates a remote position to "now" using the server timestamp of the
+   * state and the estimated client/server clock offset.
+   */
+  function estimateRemoteTime(state: PlaybackState) {
+    if (state.paused || !state.serverAt) return state.time;
+    const serverNow = Date.now() + clockOffsetRef.current;
+    const elapsed = Math.max(0, serverNow - state.serverAt) / 1000;
+    return state.time + elapsed * (state.playbackRate || 1);
+  }
+
+  async function syncClock() {
+    const socket = socketRef.current;
+    if (!socket?.connected) return;
+    for (let i = 0; i < CLOCK_SYNC_SAMPLES; i += 1) {
+      const sample = await pingClock(socket);
+      if (!sample) continue;
+      clockSamplesRef.current = addClockSample(clockSamplesRef.current, sample);
+    }
+    const best = bestClockSample(clockSamplesRef.current);
+    if (!best) return;
+    clockOffsetRef.current = best.offset;
+    setLatency(Math.round(best.rtt));
+  }
+
+  function pingClock(socket: Socket) {
+    return new Promise<ClockSample | null>((resolve) => {
+      const sentAt = Date.now();
+      socket
+        .timeout(CLOCK_PING_TIMEOUT_MS)
+        .emit("time-sync", { sentAt }, (err: Error | null, reply?: { serverAt?: number }) => {
+          if (err || typeof reply?.serverAt !== "number") {
+            resolve(null);
+            return;
+          }
+          resolve(createClockSample(sentAt, reply.serverAt, Date.now()));
+        });
+    });
+  }
+
   function cacheState(state: PlaybackState) {
     if (!state.video) return;
     const payload = {
@@ -406,7 +925,7 @@ export default function SyncPlayer() {
     }
     if (!cached?.video) return;
     if (!list.find((entry) => entry.name === cached?.video)) return;
-    setSelectedVideo(cached.video);
+    selectVideo(cached.video);
     pendingRemoteRef.current = cached;
   }
 
@@ -429,20 +948,48 @@ export default function SyncPlayer() {
 
   function handleBeforeUnload() {
     cacheState(collectState());
-    if (peerConnectionRef.current || localStreamRef.current) {
-      socketRef.current?.emit("call-end");
-    }
+    saveProgress();
   }
 
-  function appendChatMessage(text: string, sender: string) {
-    const message = { id: `${sender}-${Date.now()}`, text, sender, at: Date.now() };
+  function appendChatMessage(text: string) {
+    const sender = identityRef.current?.userId ?? "local";
+    const senderName = identityRef.current?.name;
+    const player = playerRef.current;
+    const message: ChatMessage = {
+      id: `${sender}-${Date.now()}`,
+      text,
+      sender,
+      senderName,
+      at: Date.now(),
+      ...(player && selectedVideoRef.current
+        ? { video: selectedVideoRef.current, videoTime: player.currentTime }
+        : {}),
+    };
     setMessages((prev) => [...prev, message]);
     socketRef.current?.emit("chat", message);
   }
 
+  function seekRoomTo(time: number, video = selectedVideoRef.current) {
+    const player = playerRef.current;
+    if (!player || controlsLockedRef.current || presenterActiveRef.current) return;
+    if (video && video !== selectedVideoRef.current) {
+      if (!videosRef.current.some((entry) => entry.name === video)) {
+        setHlsNote(`Video not available on this device: ${video}`);
+        return;
+      }
+      requestedVideoRef.current = video;
+      selectVideo(video);
+      pendingRemoteRef.current = { ...collectState(), time };
+      pushState("video-change", { time });
+      return;
+    }
+    player.currentTime = time;
+    pushState("seek", { time });
+  }
+
   function addReaction(id: string, emoji: string) {
     if (!id) return;
-    const sender = socketRef.current?.id ?? "local";
+    const sender = identityRef.current?.userId ?? "local";
     setMessages((prev) =>
       prev.map((msg) => {
         if (msg.id !== id) return msg;
@@ -458,104 +1005,12 @@ export default function SyncPlayer() {
         const reactions = { ...(msg.reactions ?? {}) };
         reactions[emoji] = currentUsers.size;
         const action = hasReacted ? "remove" : "add";
-        socketRef.current?.emit("chat-reaction", { id, emoji, sender, action });
+        socketRef.current?.emit("chat-reaction", { id, emoji, action });
         return { ...msg, reactions, reactionUsers };
       })
     );
   }
 
-  async function startCall() {
-    const pc = peerConnectionRef.current;
-    if (pc && pc.signalingState !== "closed") return;
-    await ensurePeerConnection();
-    const connection = peerConnectionRef.current;
-    if (!connection) return;
-    if (connection.signalingState !== "stable") return;
-    makingOfferRef.current = true;
-    const offer = await connection.createOffer();
-    if (!offer) return;
-    await connection.setLocalDescription(offer);
-    socketRef.current?.emit("call-offer", { offer });
-    makingOfferRef.current = false;
-  }
-
-  async function ensurePeerConnection() {
-    if (!localStreamRef.current) {
-      localStreamRef.current = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-      if (localCallRef.current) {
-        localCallRef.current.srcObject = localStreamRef.current;
-      }
-    }
-
-    if (!peerConnectionRef.current) {
-      peerConnectionRef.current = new RTCPeerConnection({
-        iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
-      });
-
-      localStreamRef.current.getTracks().forEach((track) => {
-        peerConnectionRef.current?.addTrack(track, localStreamRef.current as MediaStream);
-      });
-
-      peerConnectionRef.current.ontrack = (event) => {
-        if (remoteCallRef.current && remoteCallRef.current.srcObject !== event.streams[0]) {
-          remoteCallRef.current.srcObject = event.streams[0];
-        }
-      };
-
-      peerConnectionRef.current.onicecandidate = (event) => {
-        if (event.candidate) {
-          socketRef.current?.emit("call-ice", { candidate: event.candidate });
-        }
-      };
-
-      peerConnectionRef.current.onnegotiationneeded = async () => {
-        if (!peerConnectionRef.current || makingOfferRef.current) return;
-        if (peerConnectionRef.current.signalingState !== "stable") return;
-        try {
-          makingOfferRef.current = true;
-          const offer = await peerConnectionRef.current.createOffer();
-          await peerConnectionRef.current.setLocalDescription(offer);
-          socketRef.current?.emit("call-offer", { offer });
-        } catch {
-          // ignore renegotiation errors
-        } finally {
-          makingOfferRef.current = false;
-        }
-      };
-    }
-  }
-
-  function endCall() {
-    peerConnectionRef.current?.close();
-    peerConnectionRef.current = null;
-    if (remoteCallRef.current) {
-      remoteCallRef.current.srcObject = null;
-    }
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach((track) => track.stop());
-      localStreamRef.current = null;
-      if (localCallRef.current) {
-        localCallRef.current.srcObject = null;
-      }
-    }
-  }
-
-  function enableHlsSubtitles(hls: Hls) {
-    if (hls.subtitleTracks && hls.subtitleTracks.length > 0) {
-      hls.subtitleTrack = 0;
-      hls.subtitleDisplay = true;
-    }
-  }
-
-  function showFirstTextTrack() {
-    const video = playerRef.current;
-    if (!video?.textTracks || video.textTracks.length === 0) return;
-    Array.from(video.textTracks).forEach((track, idx) => {
-      track.mode = idx === 0 ? "showing" : "hidden";
-    });
-  }
-
-
   function spawnReaction(emoji: string) {
     const id = `${emoji}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
     const left = Math.floor(10 + Math.random() * 80);
@@ -575,6 +1030,45 @@ export default function SyncPlayer() {
     });
   }
 
+  async function copyRoomLink() {
+    const token = shareTokenRef.current;
+    if (!token) {
+      setHlsNote("The invite link is not ready yet.");
+      return;
+    }
+    const link = `${location.origin}/room/${encodeURIComponent(roomId)}?invite=${encodeURIComponent(token)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setHlsNote("Invite link copied.");
+    } catch {
+      setHlsNote(`Share this link: ${link}`);
+    }
+  }
+
+  function toggleRoomLock(locked: boolean) {
+    socketRef.current?.emit("room-lock", { locked });
+  }
+
+  function updateDucking(patch: Partial<DuckingSettings>) {
+    setDucking((prev) => {
+      const next = { ...prev, ...patch, depth: clampDuckingDepth(patch.depth ?? prev.depth) };
+      saveDuckingSettings(next);
+      return next;
+    });
+  }
+
+  async function toggleScreenShare() {
+    if (share.presenting) {
+      share.stopShare();
+      return;
+    }
+    if (!(await share.startShare())) return;
+    // Pause the room so everyone returns to the same spot afterwards. Sent
+    // directly, since pushState already holds back while a presenter is set.
+    lastLocalUpdateRef.current = Date.now();
+    socketRef.current?.emit("state", { state: { ...collectState(), paused: true, reason: "screen-share" } });
+  }
+
   async function toggleFullscreen() {
     const container = playerWrapRef.current;
     if (!container) return;
@@ -589,11 +1083,22 @@ export default function SyncPlayer() {
     <main className="layout-shell">
       <header className="flex flex-wrap items-center justify-between gap-4">
         <div>
-          <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">Two-person playback sync</p>
+          <p className="text-xs uppercase tracking-[0.2em] text-muted-foreground">Room · {roomId}</p>
           <h1 className="text-2xl font-semibold">Sync Player</h1>
           <p className="text-sm text-muted-foreground">Stream videos from the videos/ folder with a shared timeline.</p>
         </div>
         <div className="flex items-center gap-3">
+          {role === "host" ? (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Switch checked={roomLocked} onCheckedChange={toggleRoomLock} />
+              <span>Host-only controls</span>
+            </label>
+          ) : roomLocked ? (
+            <Badge variant="outline">Controls locked by host</Badge>
+          ) : null}
+          <Button variant="outline" size="sm" type="button" onClick={copyRoomLink}>
+            Copy invite
+          </Button>
           <ThemeToggle />
           <Badge variant="outline" className="flex items-center gap-2">
             <span className={`h-2 w-2 rounded-full ${status === "Connected" ? "bg-foreground" : "bg-muted"}`} />
@@ -606,29 +1111,30 @@ export default function SyncPlayer() {
         <Card>
           <CardContent className="flex flex-col gap-2 p-4">
             <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Video</span>
-            <Select
-              value={selectedVideo}
-            onValueChange={(value) => {
+            <VideoLibrary
+              loadPage={loadLibraryPage}
+              selected={selectedVideo}
+              disabled={playerControlsDisabled}
+              describeProgress={describeProgress}
+              onSelect={(value) => {
                 requestedVideoRef.current = value;
-                setSelectedVideo(value);
-                pushState("video-change");
+                saveProgress();
+                selectVideo(value);
+                const time = resumeTimeFor(value);
+                if (time > 0) {
+                  pendingRemoteRef.current = { ...collectState(), time };
+                }
+                pushState("video-change", { time });
               }}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select video" />
-              </SelectTrigger>
-              <SelectContent>
-                {videos.length === 0 ? (
-                  <SelectItem value="none">No HLS-ready videos</SelectItem>
-                ) : (
-                  videos.map((video) => (
-                    <SelectItem key={video.name} value={video.name}>
-                      {video.name}
-                    </SelectItem>
-                  ))
-                )}
-              </SelectContent>
-            </Select>
+            />
+            <WatchQueue
+              items={queue}
+              videos={videos.map((video) => video.name)}
+              disabled={controlsLocked}
+              onAdd={(video) => socketRef.current?.emit("queue-add", { video })}
+              onRemove={(id) => socketRef.current?.emit("queue-remove", { id })}
+              onMove={(id, toIndex) => socketRef.current?.emit("queue-move", { id, toIndex })}
+            />
           </CardContent>
         </Card>
       </section>
@@ -636,14 +1142,26 @@ export default function SyncPlayer() {
       <section className="grid gap-6 xl:grid-cols-[minmax(0,4fr)_minmax(0,1fr)]">
         <Card>
           <CardContent className="space-y-4 p-4">
-            <div ref={playerWrapRef} className="player-wrap relative">
+            <div
+              ref={playerWrapRef}
+              className="player-wrap relative"
+              data-subtitle-size={subtitlePrefs.size}
+              data-subtitle-background={subtitlePrefs.background}
+            >
               <video
                 ref={playerRef}
-                controls
+                controls={!playerControlsDisabled}
                 preload="auto"
                 crossOrigin="anonymous"
                 className="w-full rounded-lg bg-black"
               />
+              {share.presenter ? (
+                <ScreenShareView
+                  stream={share.stream}
+                  muted={share.presenting}
+                  label={share.presenting ? "You are sharing your screen" : `${share.presenter.name ?? "A peer"} is sharing`}
+                />
+              ) : null}
               <div className="reaction-layer pointer-events-none absolute inset-0 overflow-hidden">
                 {floatingReactions.map((reaction) => (
                   <span
@@ -655,16 +1173,87 @@ export default function SyncPlayer() {
                   </span>
                 ))}
               </div>
+              {subtitles.options.length > 0 && !share.presenter ? (
+                <SubtitleMenu
+                  options={subtitles.options}
+                  selectedId={subtitles.selectedId}
+                  preferences={subtitlePrefs}
+                  synced={syncSubtitles}
+                  syncDisabled={controlsLocked}
+                  onSelect={chooseSubtitle}
+                  onStyleChange={updateSubtitlePrefs}
+                  onSyncedChange={toggleSyncSubtitles}
+                />
+              ) : null}
+              {showSkipIntro && intro && !share.presenter ? (
+                <button
+                  type="button"
+                  className="absolute bottom-14 right-2 rounded bg-black/70 px-3 py-1.5 text-xs font-medium text-white hover:bg-black/85 disabled:cursor-not-allowed disabled:opacity-50"
+                  disabled={playerControlsDisabled}
+                  onClick={() => seekRoomTo(intro.end)}
+                >
+                  Skip intro
+                </button>
+              ) : null}
+              {autoplay && !share.presenter ? (
+                <NextEpisodeCountdown
+                  label={autoplayEntry?.episode ? describeEpisode(autoplayEntry.episode) : autoplay.video}
+                  endsAt={autoplay.endsAt}
+                  clockOffset={clockOffsetRef.current}
+                  disabled={controlsLocked}
+                  onCancel={() => socketRef.current?.emit("autoplay-cancel")}
+                />
+              ) : null}
+              {call.inCall && call.remotePeers.length > 0 ? (
+                // Inside the fullscreen container so it stays reachable there.
+                <button
+                  type="button"
+                  className="absolute right-2 top-2 rounded bg-black/60 px-2 py-1 text-[11px] text-white"
+                  aria-pressed={ducking.enabled}
+                  onClick={() => updateDucking({ enabled: !ducking.enabled })}
+                >
+                  {ducking.enabled ? (ducked ? "Ducking…" : "Ducking on") : "Ducking off"}
+                </button>
+              ) : null}
             </div>
+            <TimelineBar
+              duration={position.duration}
+              currentTime={position.currentTime}
+              markers={timelineMarkers}
+              disabled={playerControlsDisabled}
+              thumbnails={thumbnails}
+              pinnedPreview={seekPreview !== null ? { time: seekPreview, label: "Jumped to" } : null}
+              onSeek={(time) => seekRoomTo(time)}
+            />
             <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <span>Peers: {peers}</span>
+              <span title={members.map((member) => member.name).join(", ")}>
+                Peers: {members.length}
+                {members.length ? ` · ${members.map(describeMember).join(", ")}` : ""}
+              </span>
               <div className="flex items-center gap-2">
-                <span>Sync: {syncState}</span>
+                <span>
+                  Sync: {presenterActive ? "paused for screen share" : waitingFor.length ? describeWaiting(waitingFor) : syncState}
+                </span>
+                <label className="flex items-center gap-2">
+                  <Switch checked={waitForAll} disabled={controlsLocked} onCheckedChange={toggleWaitForAll} />
+                  <span>Wait for everyone</span>
+                </label>
+                {latency !== null ? <span>RTT: {latency} ms</span> : null}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  type="button"
+                  onClick={toggleScreenShare}
+                  disabled={!share.presenting && (controlsLocked || presenterActive)}
+                >
+                  {share.presenting ? "Stop sharing" : "Share screen"}
+                </Button>
                 <Button variant="outline" size="sm" type="button" onClick={toggleFullscreen}>
                   {isFullscreen ? "Exit Fullscreen" : "Fullscreen"}
                 </Button>
               </div>
             </div>
+            {share.shareError ? <p className="text-xs text-muted-foreground">{share.shareError}</p> : null}
           </CardContent>
         </Card>
 
@@ -673,19 +1262,58 @@ export default function SyncPlayer() {
             <div className="space-y-3 rounded-lg border bg-background/60 p-3">
               <div className="text-[10px] uppercase tracking-[0.2em] text-muted-foreground">Video call</div>
               <div className="grid grid-cols-2 gap-2">
-                <video ref={localCallRef} autoPlay muted playsInline className="h-20 w-full rounded-md bg-black object-cover" />
-                <video ref={remoteCallRef} autoPlay playsInline className="h-20 w-full rounded-md bg-black object-cover" />
+                <CallTile
+                  stream={call.localStream}
+                  label="You"
+                  muted
+                  audioMuted={call.inCall && !call.localMedia.audio}
+                  videoOff={call.inCall && !call.localMedia.video}
+                />
+                {call.remotePeers.map((peer) => (
+                  <CallTile
+                    key={peer.peerId}
+                    stream={peer.stream}
+                    label={peer.name ?? (peer.userId ? memberName(peer.userId) : "Peer")}
+                    audioMuted={!peer.audio}
+                    videoOff={!peer.video || call.audioOnly}
+                    sinkId={call.audioOutputId}
+                  />
+                ))}
               </div>
+              {call.callError ? <p className="text-xs text-muted-foreground">{call.callError}</p> : null}
+              <CallControls call={call} />
+              <DuckingControls settings={ducking} onChange={updateDucking} />
               <div className="flex gap-2">
-                <Button variant="outline" className="flex-1" onClick={startCall}>
-                  Start
+                <Button variant="outline" className="flex-1" onClick={call.startCall} disabled={call.inCall || call.joining}>
+                  {call.inCall ? `In call · ${call.remotePeers.length + 1}` : call.joining ? "Joining…" : "Join call"}
                 </Button>
-                <Button variant="outline" className="flex-1" onClick={endCall}>
-                  End
+                <Button variant="outline" className="flex-1" onClick={call.endCall} disabled={!call.inCall}>
+                  Leave
                 </Button>
               </div>
             </div>
 
+            <form
+              key={identity?.name ?? "anonymous"}
+              className="flex items-center gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                const input = event.currentTarget.elements.namedItem("displayName") as HTMLInputElement | null;
+                if (input) renameSelf(input.value);
+              }}
+            >
+              <Input
+                name="displayName"
+                defaultValue={identity?.name ?? ""}
+                placeholder="Your name"
+                autoComplete="off"
+                onBlur={(event) => renameSelf(event.currentTarget.value)}
+              />
+              <Button type="submit" variant="outline" size="sm">
+                Rename
+              </Button>
+            </form>
+
             <div className="flex items-center justify-between">
               <h2 className="text-sm font-semibold">Chat</h2>
               <span className="text-xs text-muted-foreground">{messages.length} messages</span>
@@ -698,16 +1326,30 @@ export default function SyncPlayer() {
                 messages.map((message, index) => (
                   <div
                     key={message.id || `${message.at}-${index}`}
-                    className={`space-y-1 text-xs ${message.sender === socketRef.current?.id ? "text-right" : "text-left"}`}
+                    className={`space-y-1 text-xs ${message.sender === identity?.userId ? "text-right" : "text-left"}`}
                     onDoubleClick={() => addReaction(message.id, "❤️")}
                   >
                     <div className="text-[10px] text-muted-foreground">
-                      {message.sender === socketRef.current?.id ? "You" : "Peer"} ·{" "}
+                      {message.sender === identity?.userId ? "You" : message.senderName ?? memberName(message.sender)} ·{" "}
                       {new Date(message.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      {typeof message.videoTime === "number" ? (
+                        <>
+                          {" "}
+                          ·{" "}
+                          <button
+                            type="button"
+                            className="rounded-full border border-border bg-background px-1.5 py-0.5 font-medium tabular-nums text-foreground hover:bg-accent"
+                            title={message.video ? `Jump to ${message.video}` : "Jump to this moment"}
+                            onClick={() => seekRoomTo(message.videoTime as number, message.video)}
+                          >
+                            {formatTimecode(message.videoTime)}
+                          </button>
+                        </>
+                      ) : null}
                     </div>
                     <div
                       className={`inline-block max-w-[80%] rounded-md border px-3 py-2 text-sm ${
-                        message.sender === socketRef.current?.id
+                        message.sender === identity?.userId
                           ? "bg-foreground text-background"
                           : "bg-background"
                       }`}
@@ -721,6 +1363,9 @@ export default function SyncPlayer() {
                           .map(([emoji, count]) => (
                           <span
                             key={`${message.id}-${emoji}`}
+                            title={(message.reactionUsers?.[emoji] ?? [])
+                              .map((userId) => (userId === identity?.userId ? "You" : memberName(userId)))
+                              .join(", ")}
                             className="inline-flex items-center gap-1 rounded-full border border-border bg-background px-2 py-0.5"
                           >
                             <span className="text-sm">{emoji}</span>
@@ -757,7 +1402,7 @@ export default function SyncPlayer() {
                 if (!input) return;
                 const text = input.value.trim();
                 if (!text) return;
-                appendChatMessage(text, socketRef.current?.id ?? "local");
+                appendChatMessage(text);
                 input.value = "";
               }}
             >
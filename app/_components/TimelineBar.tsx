@@ -0,0 +1,118 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { findThumbnail, type ThumbnailCue } from "@/lib/thumbnails";
+import { formatTimecode } from "@/lib/time";
+
+export type TimelineMarker = {
+  id: string;
+  time: number;
+  label: string;
+};
+
+type TimelineBarProps = {
+  duration: number;
+  currentTime: number;
+  markers: TimelineMarker[];
+  disabled?: boolean;
+  thumbnails?: ThumbnailCue[];
+  /** Shown like a hover preview while nothing is hovered, e.g. where a peer just seeked to. */
+  pinnedPreview?: { time: number; label: string } | null;
+  onSeek: (time: number) => void;
+};
+
+export default function TimelineBar({
+  duration,
+  currentTime,
+  markers,
+  disabled = false,
+  thumbnails = [],
+  pinnedPreview = null,
+  onSeek,
+}: TimelineBarProps) {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const hasDuration = Number.isFinite(duration) && duration > 0;
+  const progress = hasDuration ? Math.min(100, (currentTime / duration) * 100) : 0;
+
+  const preview = hoverTime !== null ? { time: hoverTime, label: "" } : pinnedPreview;
+  const thumbnail = preview ? findThumbnail(thumbnails, preview.time) : null;
+
+  function timeFromPointer(clientX: number) {
+    const track = trackRef.current;
+    if (!track || !hasDuration) return null;
+    const rect = track.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+      <span className="tabular-nums">{formatTimecode(currentTime)}</span>
+      <div
+        ref={trackRef}
+        role="slider"
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={hasDuration ? Math.round(duration) : 0}
+        aria-valuenow={Math.round(currentTime)}
+        aria-disabled={disabled}
+        tabIndex={disabled ? -1 : 0}
+        className={`relative h-2 flex-1 rounded-full bg-muted ${disabled ? "cursor-not-allowed" : "cursor-pointer"}`}
+        onClick={(event) => {
+          const time = timeFromPointer(event.clientX);
+          if (time !== null && !disabled) onSeek(time);
+        }}
+        onMouseMove={(event) => setHoverTime(timeFromPointer(event.clientX))}
+        onMouseLeave={() => setHoverTime(null)}
+      >
+        <div className="absolute inset-y-0 left-0 rounded-full bg-foreground/70" style={{ width: `${progress}%` }} />
+        {hasDuration
+          ? markers
+              .filter((marker) => marker.time >= 0 && marker.time <= duration)
+              .map((marker) => (
+                <button
+                  key={marker.id}
+                  type="button"
+                  title={`${formatTimecode(marker.time)} · ${marker.label}`}
+                  disabled={disabled}
+                  className="absolute top-1/2 h-3 w-1 -translate-x-1/2 -translate-y-1/2 rounded-sm bg-primary ring-1 ring-background"
+                  style={{ left: `${(marker.time / duration) * 100}%` }}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onSeek(marker.time);
+                  }}
+                />
+              ))
+          : null}
+        {preview && hasDuration ? (
+          <div
+            className="pointer-events-none absolute bottom-full mb-2 flex -translate-x-1/2 flex-col items-center gap-1"
+            style={{
+              // Keeps the preview inside the bar at either end.
+              left: `clamp(${(thumbnail?.width ?? 48) / 2}px, ${(preview.time / duration) * 100}%, calc(100% - ${(thumbnail?.width ?? 48) / 2}px))`,
+            }}
+          >
+            {thumbnail ? (
+              <div
+                className="rounded border border-background bg-black shadow"
+                style={{
+                  width: thumbnail.width,
+                  height: thumbnail.height,
+                  backgroundImage: `url("${thumbnail.url}")`,
+                  backgroundPosition: `-${thumbnail.x}px -${thumbnail.y}px`,
+                }}
+              />
+            ) : null}
+            <span className="whitespace-nowrap rounded bg-black/70 px-1.5 py-0.5 text-[10px] text-white tabular-nums">
+              {preview.label ? `${preview.label} ` : ""}
+              {formatTimecode(preview.time)}
+            </span>
+          </div>
+        ) : null}
+      </div>
+      <span className="tabular-nums">{hasDuration ? formatTimecode(duration) : "--:--"}</span>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Film, Folder, Search } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatEpisodeCode, type EpisodeInfo } from "@/lib/episodes";
+import { formatTimecode } from "@/lib/time";
+
+export type VideoMetadata = {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  videoCodec: string | null;
+  audioCodecs: string[];
+  audioLanguages: string[];
+};
+
+export type LibraryVideo = {
+  /** Path relative to the videos directory, e.g. `Shows/Pilot.mkv`. */
+  name: string;
+  hls: boolean;
+  sizeBytes: number | null;
+  addedAt: string | null;
+  metadata: VideoMetadata | null;
+  posterPath: string | null;
+  episode: EpisodeInfo | null;
+};
+
+export type LibrarySort = "name" | "added" | "duration";
+
+export type LibraryQuery = {
+  folder: string;
+  q: string;
+  sort: LibrarySort;
+  page: number;
+  pageSize: number;
+};
+
+export type LibraryPage = {
+  files: LibraryVideo[];
+  folders: { name: string; path: string; videoCount: number }[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 250;
+const SORT_LABELS: Record<LibrarySort, string> = {
+  name: "Name",
+  added: "Recently added",
+  duration: "Duration",
+};
+
+type VideoLibraryProps = {
+  loadPage: (query: LibraryQuery) => Promise<LibraryPage>;
+  selected: string;
+  disabled?: boolean;
+  describeProgress: (name: string) => string;
+  onSelect: (name: string) => void;
+};
+
+export default function VideoLibrary({ loadPage, selected, disabled = false, describeProgress, onSelect }: VideoLibraryProps) {
+  const [folder, setFolder] = useState("");
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<LibrarySort>("name");
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<LibraryPage | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setQuery(search.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPage({ folder, q: query, sort, page, pageSize: PAGE_SIZE })
+      .then((next) => {
+        if (cancelled) return;
+        setResult(next);
+        setFailed(false);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadPage, folder, query, sort, page]);
+
+  function openFolder(path: string) {
+    setFolder(path);
+    setSearch("");
+    setQuery("");
+    setPage(1);
+  }
+
+  const crumbs = folder ? folder.split("/") : [];
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const empty = result && !result.files.length && !result.folders.length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative min-w-[12rem] flex-1">
+          <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder={folder ? `Search in ${crumbs[crumbs.length - 1]}` : "Search videos"}
+            aria-label="Search videos"
+            className="h-9 pl-8"
+          />
+        </div>
+        <Select
+          value={sort}
+          onValueChange={(value) => {
+            setSort(value as LibrarySort);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="h-9 w-40" aria-label="Sort videos">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as LibrarySort[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {SORT_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {crumbs.length ? (
+        <nav aria-label="Folder" className="flex flex-wrap items-center gap-1 text-sm">
+          <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => openFolder("")}>
+            Library
+          </button>
+          {crumbs.map((crumb, index) => (
+            <span key={index} className="flex items-center gap-1">
+              <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+              {index === crumbs.length - 1 ? (
+                <span className="font-medium">{crumb}</span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => openFolder(crumbs.slice(0, index + 1).join("/"))}
+                >
+                  {crumb}
+                </button>
+              )}
+            </span>
+          ))}
+        </nav>
+      ) : null}
+
+      {failed ? <p className="text-sm text-muted-foreground">Failed to load the library.</p> : null}
+      {!failed && empty ? (
+        <p className="text-sm text-muted-foreground">
+          {query ? `No videos match “${query}”.` : folder ? "This folder is empty." : "No videos in the library yet."}
+        </p>
+      ) : null}
+
+      {result && !empty ? (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-5">
+          {(result.page === 1 ? result.folders : []).map((entry) => (
+            <li key={entry.path}>
+              <button
+                type="button"
+                title={entry.path}
+                onClick={() => openFolder(entry.path)}
+                className="flex w-full flex-col gap-1 rounded-md border p-1.5 text-left transition-colors hover:bg-muted/60"
+              >
+                <div className="relative aspect-video w-full overflow-hidden rounded bg-muted">
+                  <Folder className="absolute left-1/2 top-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 text-muted-foreground" />
+                </div>
+                <span className="truncate text-sm font-medium">{entry.name}</span>
+                <span className="truncate text-[11px] text-muted-foreground">
+                  {entry.videoCount === 1 ? "1 video" : `${entry.videoCount} videos`}
+                </span>
+              </button>
+            </li>
+          ))}
+          {result.files.map((video) => {
+            const active = video.name === selected;
+            const progress = describeProgress(video.name);
+            const details = [
+              video.episode ? formatEpisodeCode(video.episode) : "",
+              resolutionLabel(video.metadata),
+              formatSize(video.sizeBytes),
+              ...(video.metadata?.audioLanguages ?? []),
+            ]
+              .filter(Boolean)
+              .join(" · ");
+            // Search results can come from subfolders, so show where they live.
+            const label = video.name.slice(folder ? folder.length + 1 : 0);
+            return (
+              <li key={video.name}>
+                <button
+                  type="button"
+                  disabled={disabled || !video.hls}
+                  aria-pressed={active}
+                  title={video.name}
+                  onClick={() => onSelect(video.name)}
+                  className={`flex w-full flex-col gap-1 rounded-md border p-1.5 text-left transition-colors disabled:cursor-not-allowed ${
+                    active ? "border-primary bg-primary/10" : "hover:bg-muted/60"
+                  } ${video.hls ? "" : "opacity-60"}`}
+                >
+                  <div className="relative aspect-video w-full overflow-hidden rounded bg-muted">
+                    {video.posterPath ? (
+                      <img src={video.posterPath} alt="" loading="lazy" className="h-full w-full object-cover" />
+                    ) : (
+                      <Film className="absolute left-1/2 top-1/2 h-6 w-6 -translate-x-1/2 -translate-y-1/2 text-muted-foreground" />
+                    )}
+                    {video.metadata?.durationSeconds ? (
+                      <span className="absolute bottom-1 right-1 rounded bg-black/70 px-1 text-[10px] tabular-nums text-white">
+                        {formatTimecode(video.metadata.durationSeconds)}
+                      </span>
+                    ) : null}
+                    {!video.hls ? (
+                      <Badge className="absolute left-1 top-1 border-transparent bg-black/70 text-[10px] text-white">
+                        Not yet transcoded
+                      </Badge>
+                    ) : null}
+                  </div>
+                  <span className="truncate text-sm font-medium">{label}</span>
+                  <span className="truncate text-[11px] text-muted-foreground">
+                    {[details, progress].filter(Boolean).join(" · ") || " "}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+
+      {pageCount > 1 ? (
+        <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+          <span className="tabular-nums">
+            Page {page} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            type="button"
+            aria-label="Previous page"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            type="button"
+            aria-label="Next page"
+            disabled={page >= pageCount}
+            onClick={() => setPage(page + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function resolutionLabel(metadata: VideoMetadata | null) {
+  if (!metadata?.height) return "";
+  // Named by the shorter side so portrait videos aren't labelled by their height.
+  return `${Math.min(metadata.width || metadata.height, metadata.height)}p`;
+}
+
+function formatSize(bytes: number | null) {
+  if (bytes === null) return "";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+  return `${value.toFixed(unitIndex >= 3 ? 1 : 0)} ${units[unitIndex]}`;
+}
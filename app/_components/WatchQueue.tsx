@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type QueueItem = {
+  id: string;
+  video: string;
+  addedBy?: string;
+  addedByName?: string;
+};
+
+type WatchQueueProps = {
+  items: QueueItem[];
+  videos: string[];
+  disabled?: boolean;
+  onAdd: (video: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, toIndex: number) => void;
+};
+
+export default function WatchQueue({ items, videos, disabled = false, onAdd, onRemove, onMove }: WatchQueueProps) {
+  const [candidate, setCandidate] = useState("");
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Up next</span>
+        <span className="text-xs text-muted-foreground">{items.length} queued</span>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">The queue is empty. Add a video to play it after this one.</p>
+      ) : (
+        <ol className="space-y-1">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex items-center gap-2 rounded-md border bg-background/60 px-2 py-1 text-sm">
+              <span className="w-5 text-xs tabular-nums text-muted-foreground">{index + 1}.</span>
+              <span className="flex-1 truncate" title={item.addedByName ? `Added by ${item.addedByName}` : undefined}>
+                {item.video}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                type="button"
+                aria-label="Move up"
+                disabled={disabled || index === 0}
+                onClick={() => onMove(item.id, index - 1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                type="button"
+                aria-label="Move down"
+                disabled={disabled || index === items.length - 1}
+                onClick={() => onMove(item.id, index + 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                type="button"
+                aria-label="Remove from queue"
+                disabled={disabled}
+                onClick={() => onRemove(item.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={candidate} onValueChange={setCandidate} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add to queue" />
+          </SelectTrigger>
+          <SelectContent>
+            {videos.map((video) => (
+              <SelectItem key={video} value={video}>
+                {video}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          type="button"
+          disabled={disabled || !candidate}
+          onClick={() => {
+            onAdd(candidate);
+            setCandidate("");
+          }}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
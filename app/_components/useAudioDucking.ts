@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+
+import type { DuckingSettings } from "@/lib/ducking";
+
+const POLL_INTERVAL_MS = 50;
+// RMS level of the remote voice that counts as speech.
+const SPEECH_THRESHOLD = 0.02;
+// Keep the movie lowered through short pauses between words.
+const HOLD_MS = 700;
+const ATTACK_STEP = 0.08;
+const RELEASE_STEP = 0.02;
+
+/**
+ * Lowers the movie's volume while any of the given call streams carries
+ * speech and restores it afterwards. The streams are only analysed, never
+ * routed to the speakers, so the call tiles keep playing the voices.
+ *
+ * Volume changes made by the viewer are kept as the new baseline; the
+ * hook only ever scales that baseline down.
+ */
+export function useAudioDucking(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  streams: (MediaStream | null)[],
+  settings: DuckingSettings
+) {
+  const depthRef = useRef(settings.depth);
+  const streamsRef = useRef(streams);
+  const contextRef = useRef<AudioContext | null>(null);
+  const [ducked, setDucked] = useState(false);
+
+  depthRef.current = settings.depth;
+  streamsRef.current = streams;
+
+  const trackKey = streams
+    .flatMap((stream) => stream?.getAudioTracks().map((track) => track.id) ?? [])
+    .join(",");
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const tracks = streamsRef.current.flatMap((stream) => stream?.getAudioTracks() ?? []);
+    if (!video || !settings.enabled || tracks.length === 0) return;
+
+    if (!contextRef.current) {
+      contextRef.current = new AudioContext();
+    }
+    const context = contextRef.current;
+    context.resume().catch(() => {});
+
+    const analysers = tracks.map((track) => {
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(analyser);
+      return { source, analyser, samples: new Float32Array(analyser.fftSize) };
+    });
+
+    let userVolume = video.volume;
+    let appliedVolume = video.volume;
+    let lastSpeechAt = 0;
+    let isDucked = false;
+
+    const handleVolumeChange = () => {
+      if (Math.abs(video.volume - appliedVolume) < 0.001) return;
+      // The viewer moved the slider; treat it as the level they want at the
+      // current ducking state.
+      const factor = isDucked ? 1 - depthRef.current : 1;
+      userVolume = Math.min(1, video.volume / factor);
+      appliedVolume = video.volume;
+    };
+
+    const tick = () => {
+      const now = Date.now();
+      const speaking = analysers.some(({ analyser, samples }) => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (const sample of samples) sum += sample * sample;
+        return Math.sqrt(sum / samples.length) > SPEECH_THRESHOLD;
+      });
+      if (speaking) lastSpeechAt = now;
+
+      const nextDucked = now - lastSpeechAt < HOLD_MS;
+      if (nextDucked !== isDucked) {
+        isDucked = nextDucked;
+        setDucked(nextDucked);
+      }
+
+      const target = userVolume * (isDucked ? 1 - depthRef.current : 1);
+      const step = video.volume > target ? ATTACK_STEP : RELEASE_STEP;
+      const next =
+        Math.abs(video.volume - target) <= step ? target : video.volume + Math.sign(target - video.volume) * step;
+      if (next !== video.volume) {
+        appliedVolume = next;
+        video.volume = next;
+      }
+    };
+
+    video.addEventListener("volumechange", handleVolumeChange);
+    const interval = window.setInterval(tick, POLL_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+      video.removeEventListener("volumechange", handleVolumeChange);
+      analysers.forEach(({ source, analyser }) => {
+        source.disconnect();
+        analyser.disconnect();
+      });
+      appliedVolume = userVolume;
+      video.volume = userVolume;
+      setDucked(false);
+    };
+  }, [trackKey, settings.enabled]);
+
+  useEffect(() => {
+    return () => {
+      contextRef.current?.close().catch(() => {});
+      contextRef.current = null;
+    };
+  }, []);
+
+  return { ducked };
+}
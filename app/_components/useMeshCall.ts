@@ -0,0 +1,517 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Socket } from "socket.io-client";
+
+import { loadIceServers } from "@/lib/ice-servers";
+
+// How long to wait for the server to admit us before giving up on joining.
+const CALL_JOIN_TIMEOUT_MS = 10000;
+
+export type RemotePeer = {
+  peerId: string;
+  userId: string | null;
+  name: string | null;
+  stream: MediaStream | null;
+  audio: boolean;
+  video: boolean;
+};
+
+export type MediaDeviceOption = {
+  deviceId: string;
+  kind: MediaDeviceKind;
+  label: string;
+};
+
+type PeerInfo = {
+  peerId: string;
+  userId: string | null;
+  name: string | null;
+  audio?: boolean;
+  video?: boolean;
+};
+
+type CallMedia = {
+  audio: boolean;
+  video: boolean;
+};
+
+type PeerLink = {
+  pc: RTCPeerConnection;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+};
+
+/**
+ * Full-mesh WebRTC call: one RTCPeerConnection per remote participant, with
+ * offers, answers and ICE candidates addressed to a single peer id. Glare is
+ * resolved with the "perfect negotiation" pattern, where the peer with the
+ * larger socket id is the polite one. ICE servers (including short-lived TURN
+ * credentials) come from the sync server before any connection is created.
+ *
+ * Mute and camera-off only disable the local track and are announced to
+ * peers with "call-media". Audio-only mode also marks every video
+ * transceiver inactive, which stops video in both directions.
+ */
+export function useMeshCall(socket: Socket | null, roomId: string) {
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const iceServersRef = useRef<RTCIceServer[]>([]);
+  const linksRef = useRef(new Map<string, PeerLink>());
+  const peerInfoRef = useRef(new Map<string, PeerInfo>());
+  const inCallRef = useRef(false);
+  const joiningRef = useRef(false);
+  const micEnabledRef = useRef(true);
+  const cameraEnabledRef = useRef(true);
+  const audioOnlyRef = useRef(false);
+
+  const [inCall, setInCall] = useState(false);
+  const [joining, setJoining] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [localMedia, setLocalMedia] = useState<CallMedia>({ audio: false, video: false });
+  const [remotePeers, setRemotePeers] = useState<RemotePeer[]>([]);
+  const [callError, setCallError] = useState("");
+  const [micEnabled, setMicEnabled] = useState(true);
+  const [cameraEnabled, setCameraEnabled] = useState(true);
+  const [audioOnly, setAudioOnlyState] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceOption[]>([]);
+  const [audioInputId, setAudioInputId] = useState("");
+  const [videoInputId, setVideoInputId] = useState("");
+  const [audioOutputId, setAudioOutputId] = useState("");
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePeerJoined = (info: PeerInfo) => {
+      if (!inCallRef.current || !info?.peerId) return;
+      peerInfoRef.current.set(info.peerId, info);
+      upsertRemotePeer(info.peerId, {});
+    };
+
+    const handlePeerLeft = ({ peerId }: { peerId: string }) => {
+      if (!peerId) return;
+      closeLink(peerId);
+    };
+
+    const handlePeerMedia = ({ peerId, audio, video }: { peerId: string } & CallMedia) => {
+      const info = peerInfoRef.current.get(peerId);
+      if (!info) return;
+      peerInfoRef.current.set(peerId, { ...info, audio, video });
+      upsertRemotePeer(peerId, { audio, video });
+    };
+
+    const handleOffer = async ({ from, offer }: { from: string; offer: RTCSessionDescriptionInit }) => {
+      if (!inCallRef.current || !from || !offer) return;
+      const link = ensureLink(socket, from);
+      const collision = link.makingOffer || link.pc.signalingState !== "stable";
+      link.ignoreOffer = !link.polite && collision;
+      if (link.ignoreOffer) return;
+      try {
+        await link.pc.setRemoteDescription(offer);
+        // The answer inherits transceiver directions, so audio-only also
+        // refuses video the peer just offered.
+        applyVideoMode(link.pc);
+        await link.pc.setLocalDescription();
+        socket.emit("call-answer", { to: from, answer: link.pc.localDescription });
+      } catch {
+        // a later offer will renegotiate
+      }
+    };
+
+    const handleAnswer = async ({ from, answer }: { from: string; answer: RTCSessionDescriptionInit }) => {
+      const link = linksRef.current.get(from);
+      if (!link || !answer) return;
+      try {
+        await link.pc.setRemoteDescription(answer);
+      } catch {
+        // ignore stale answers
+      }
+    };
+
+    const handleIce = async ({ from, candidate }: { from: string; candidate: RTCIceCandidateInit }) => {
+      const link = linksRef.current.get(from);
+      if (!link || !candidate) return;
+      try {
+        await link.pc.addIceCandidate(candidate);
+      } catch {
+        // candidates for an ignored offer are expected to fail
+      }
+    };
+
+    const handleDisconnect = () => {
+      if (inCallRef.current) endCall();
+    };
+
+    socket.on("call-peer-joined", handlePeerJoined);
+    socket.on("call-peer-left", handlePeerLeft);
+    socket.on("call-media", handlePeerMedia);
+    socket.on("call-offer", handleOffer);
+    socket.on("call-answer", handleAnswer);
+    socket.on("call-ice", handleIce);
+    socket.on("disconnect", handleDisconnect);
+
+    return () => {
+      socket.off("call-peer-joined", handlePeerJoined);
+      socket.off("call-peer-left", handlePeerLeft);
+      socket.off("call-media", handlePeerMedia);
+      socket.off("call-offer", handleOffer);
+      socket.off("call-answer", handleAnswer);
+      socket.off("call-ice", handleIce);
+      socket.off("disconnect", handleDisconnect);
+      endCall();
+    };
+  }, [socket]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+    refreshDevices();
+    mediaDevices.addEventListener("devicechange", refreshDevices);
+    return () => {
+      mediaDevices.removeEventListener("devicechange", refreshDevices);
+    };
+  }, []);
+
+  async function startCall() {
+    if (!socket || inCallRef.current || joiningRef.current) return;
+    // Set before the first await so a second click can't open a second stream.
+    joiningRef.current = true;
+    setJoining(true);
+    try {
+      await joinCall(socket);
+    } finally {
+      joiningRef.current = false;
+      setJoining(false);
+    }
+  }
+
+  async function joinCall(socket: Socket) {
+    setCallError("");
+    iceServersRef.current = await loadIceServers(roomId);
+
+    const stream = await openLocalMedia(!audioOnlyRef.current);
+    if (!stream) {
+      setCallError("Camera or microphone is unavailable.");
+      return;
+    }
+    if (!joiningRef.current) {
+      // Hung up (or unmounted) while the browser was asking for the devices.
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    if (!audioOnlyRef.current && stream.getVideoTracks().length === 0) {
+      setCallError("No camera found. Joined with audio only.");
+    } else if (stream.getAudioTracks().length === 0) {
+      setCallError("No microphone found. Others will not hear you.");
+    }
+    stream.getAudioTracks().forEach((track) => (track.enabled = micEnabledRef.current));
+    stream.getVideoTracks().forEach((track) => (track.enabled = cameraEnabledRef.current));
+    localStreamRef.current = stream;
+    inCallRef.current = true;
+    setInCall(true);
+    publishLocalMedia();
+    // Device labels are only exposed once permission has been granted.
+    refreshDevices();
+
+    const reply: { ok?: boolean; error?: string; peers?: PeerInfo[] } = await socket
+      .timeout(CALL_JOIN_TIMEOUT_MS)
+      .emitWithAck("call-join", currentMedia())
+      .catch(() => ({ ok: false, error: "The server didn't answer. Try joining the call again." }));
+    if (!reply?.ok) {
+      setCallError(reply?.error ?? "Could not join the call.");
+      endCall();
+      return;
+    }
+    for (const info of reply.peers ?? []) {
+      peerInfoRef.current.set(info.peerId, info);
+      // Adding local tracks fires negotiationneeded, which sends the offer.
+      ensureLink(socket, info.peerId);
+    }
+  }
+
+  function endCall() {
+    const wasInCall = inCallRef.current;
+    inCallRef.current = false;
+    joiningRef.current = false;
+    for (const peerId of Array.from(linksRef.current.keys())) {
+      closeLink(peerId);
+    }
+    peerInfoRef.current.clear();
+    setRemotePeers([]);
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+    localStreamRef.current = null;
+    setLocalStream(null);
+    setLocalMedia({ audio: false, video: false });
+    setInCall(false);
+    if (wasInCall && socket?.connected) {
+      socket.emit("call-leave");
+    }
+  }
+
+  function toggleMic() {
+    const next = !micEnabledRef.current;
+    micEnabledRef.current = next;
+    setMicEnabled(next);
+    localStreamRef.current?.getAudioTracks().forEach((track) => (track.enabled = next));
+    publishLocalMedia();
+  }
+
+  async function toggleCamera() {
+    const next = !cameraEnabledRef.current;
+    cameraEnabledRef.current = next;
+    setCameraEnabled(next);
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    const track = stream.getVideoTracks()[0];
+    if (track) {
+      track.enabled = next;
+    } else if (next && !audioOnlyRef.current) {
+      // The call may have started without a camera; try again now.
+      await replaceLocalTrack("video", videoInputId);
+    }
+    publishLocalMedia();
+  }
+
+  async function setAudioOnly(value: boolean) {
+    audioOnlyRef.current = value;
+    setAudioOnlyState(value);
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    if (value) {
+      for (const track of stream.getVideoTracks()) {
+        track.stop();
+        stream.removeTrack(track);
+      }
+    }
+    for (const link of linksRef.current.values()) {
+      applyVideoMode(link.pc);
+    }
+    if (!value && cameraEnabledRef.current) {
+      await replaceLocalTrack("video", videoInputId);
+    }
+    publishLocalMedia();
+  }
+
+  async function selectDevice(kind: MediaDeviceKind, deviceId: string) {
+    if (kind === "audiooutput") {
+      setAudioOutputId(deviceId);
+      return;
+    }
+    if (kind === "audioinput") {
+      setAudioInputId(deviceId);
+      if (inCallRef.current) await replaceLocalTrack("audio", deviceId);
+    } else {
+      setVideoInputId(deviceId);
+      if (inCallRef.current && !audioOnlyRef.current) await replaceLocalTrack("video", deviceId);
+    }
+    publishLocalMedia();
+  }
+
+  async function openLocalMedia(wantVideo: boolean) {
+    const audio: MediaTrackConstraints | boolean = audioInputId ? { deviceId: { ideal: audioInputId } } : true;
+    const video: MediaTrackConstraints | boolean = videoInputId ? { deviceId: { ideal: videoInputId } } : true;
+    // Fall back to whichever device works instead of failing the whole call.
+    const attempts: MediaStreamConstraints[] = wantVideo ? [{ audio, video }, { audio }, { video }] : [{ audio }];
+    for (const constraints of attempts) {
+      try {
+        return await navigator.mediaDevices.getUserMedia(constraints);
+      } catch {
+        // try the next combination
+      }
+    }
+    return null;
+  }
+
+  async function replaceLocalTrack(kind: "audio" | "video", deviceId: string) {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    let track: MediaStreamTrack | undefined;
+    try {
+      const media = await navigator.mediaDevices.getUserMedia({
+        [kind]: deviceId ? { deviceId: { exact: deviceId } } : true,
+      });
+      track = media.getTracks()[0];
+    } catch {
+      setCallError(kind === "audio" ? "Could not open that microphone." : "Could not open that camera.");
+      return;
+    }
+    if (!track) return;
+    if (!inCallRef.current || localStreamRef.current !== stream) {
+      track.stop();
+      return;
+    }
+
+    for (const previous of stream.getTracks().filter((candidate) => candidate.kind === kind)) {
+      previous.stop();
+      stream.removeTrack(previous);
+    }
+    track.enabled = kind === "audio" ? micEnabledRef.current : cameraEnabledRef.current;
+    stream.addTrack(track);
+
+    for (const link of linksRef.current.values()) {
+      const transceiver = link.pc
+        .getTransceivers()
+        .find((candidate) => candidate.receiver.track.kind === kind && candidate.currentDirection !== "stopped");
+      if (!transceiver) {
+        link.pc.addTrack(track, stream);
+        continue;
+      }
+      try {
+        await transceiver.sender.replaceTrack(track);
+        transceiver.sender.setStreams(stream);
+        if (transceiver.direction === "recvonly" || transceiver.direction === "inactive") {
+          transceiver.direction = "sendrecv";
+        }
+      } catch {
+        // the peer may have left while the device was opening
+      }
+    }
+    setCallError("");
+  }
+
+  function applyVideoMode(pc: RTCPeerConnection) {
+    for (const transceiver of pc.getTransceivers()) {
+      if (transceiver.receiver.track.kind !== "video" || transceiver.currentDirection === "stopped") continue;
+      if (audioOnlyRef.current) {
+        transceiver.sender.replaceTrack(null).catch(() => {});
+        transceiver.direction = "inactive";
+      } else if (transceiver.direction === "inactive") {
+        transceiver.direction = transceiver.sender.track ? "sendrecv" : "recvonly";
+      }
+    }
+  }
+
+  function currentMedia(): CallMedia {
+    const stream = localStreamRef.current;
+    return {
+      audio: Boolean(stream?.getAudioTracks().some((track) => track.enabled)),
+      video: !audioOnlyRef.current && Boolean(stream?.getVideoTracks().some((track) => track.enabled)),
+    };
+  }
+
+  function publishLocalMedia() {
+    const stream = localStreamRef.current;
+    // A fresh wrapper so the preview tile notices added or removed tracks;
+    // peers keep the original stream id.
+    setLocalStream(stream ? new MediaStream(stream.getTracks()) : null);
+    setLocalMedia(currentMedia());
+    if (inCallRef.current && socket?.connected) {
+      socket.emit("call-media", currentMedia());
+    }
+  }
+
+  async function refreshDevices() {
+    try {
+      const list = await navigator.mediaDevices.enumerateDevices();
+      setDevices(
+        list
+          .filter((device) => device.deviceId)
+          .map((device) => ({ deviceId: device.deviceId, kind: device.kind, label: device.label }))
+      );
+    } catch {
+      setDevices([]);
+    }
+  }
+
+  function ensureLink(signaling: Socket, peerId: string) {
+    const existing = linksRef.current.get(peerId);
+    if (existing) return existing;
+
+    const pc = new RTCPeerConnection({ iceServers: iceServersRef.current });
+    const link: PeerLink = {
+      pc,
+      polite: (signaling.id ?? "") > peerId,
+      makingOffer: false,
+      ignoreOffer: false,
+    };
+    linksRef.current.set(peerId, link);
+    upsertRemotePeer(peerId, {});
+
+    pc.ontrack = (event) => {
+      upsertRemotePeer(peerId, { stream: event.streams[0] ?? null });
+    };
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        signaling.emit("call-ice", { to: peerId, candidate: event.candidate });
+      }
+    };
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        link.makingOffer = true;
+        await pc.setLocalDescription();
+        signaling.emit("call-offer", { to: peerId, offer: pc.localDescription });
+      } catch {
+        // ignore renegotiation errors
+      } finally {
+        link.makingOffer = false;
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "failed") {
+        pc.restartIce();
+      }
+    };
+
+    const stream = localStreamRef.current;
+    stream?.getTracks().forEach((track) => pc.addTrack(track, stream));
+    return link;
+  }
+
+  function closeLink(peerId: string) {
+    const link = linksRef.current.get(peerId);
+    link?.pc.close();
+    linksRef.current.delete(peerId);
+    peerInfoRef.current.delete(peerId);
+    setRemotePeers((prev) => prev.filter((peer) => peer.peerId !== peerId));
+  }
+
+  function upsertRemotePeer(peerId: string, patch: Partial<RemotePeer>) {
+    const info = peerInfoRef.current.get(peerId);
+    setRemotePeers((prev) => {
+      const index = prev.findIndex((peer) => peer.peerId === peerId);
+      const base: RemotePeer =
+        index === -1
+          ? {
+              peerId,
+              userId: info?.userId ?? null,
+              name: info?.name ?? null,
+              stream: null,
+              audio: info?.audio ?? true,
+              video: info?.video ?? true,
+            }
+          : prev[index];
+      const next = { ...base, ...patch };
+      if (index === -1) return [...prev, next];
+      const copy = prev.slice();
+      copy[index] = next;
+      return copy;
+    });
+  }
+
+  return {
+    inCall,
+    joining,
+    localStream,
+    localMedia,
+    remotePeers,
+    callError,
+    micEnabled,
+    cameraEnabled,
+    audioOnly,
+    devices,
+    audioInputId,
+    videoInputId,
+    audioOutputId,
+    startCall,
+    endCall,
+    toggleMic,
+    toggleCamera,
+    setAudioOnly,
+    selectDevice,
+  };
+}
+
+export type MeshCall = ReturnType<typeof useMeshCall>;
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Socket } from "socket.io-client";
+
+import { loadIceServers } from "@/lib/ice-servers";
+
+// How long to wait for the server to accept us as the presenter.
+const SHARE_START_TIMEOUT_MS = 10000;
+
+export type Presenter = {
+  peerId: string;
+  userId: string | null;
+  name: string | null;
+};
+
+/**
+ * One viewer shares a tab or window with everyone else in the room. The
+ * presenter opens a send-only RTCPeerConnection per viewer and always makes
+ * the offer, so unlike the call there is no glare to resolve. The server
+ * tracks who is presenting and tells the presenter when viewers come and go.
+ */
+export function useScreenShare(socket: Socket | null, roomId: string) {
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const linksRef = useRef(new Map<string, RTCPeerConnection>());
+  const pendingIceRef = useRef(new Map<string, RTCIceCandidateInit[]>());
+
+  const [presenter, setPresenter] = useState<Presenter | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [shareError, setShareError] = useState("");
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePresenter = ({ presenter: next }: { presenter: Presenter | null }) => {
+      setPresenter(next ?? null);
+      if (next?.peerId === socket.id) return;
+      if (localStreamRef.current) stopLocalShare();
+      if (!next) {
+        closeAllLinks();
+        setStream(null);
+      }
+    };
+
+    const handleViewerJoined = ({ peerId }: { peerId: string }) => {
+      if (!localStreamRef.current || !peerId) return;
+      openPresenterLink(socket, peerId);
+    };
+
+    const handleViewerLeft = ({ peerId }: { peerId: string }) => {
+      closeLink(peerId);
+    };
+
+    const handleOffer = async ({ from, offer }: { from: string; offer: RTCSessionDescriptionInit }) => {
+      if (!from || !offer || localStreamRef.current) return;
+      let pc = linksRef.current.get(from);
+      if (!pc) {
+        const iceServers = await loadIceServers(roomId);
+        pc = linksRef.current.get(from) ?? createViewerLink(socket, from, iceServers);
+      }
+      try {
+        await pc.setRemoteDescription(offer);
+        await pc.setLocalDescription();
+        socket.emit("share-answer", { to: from, answer: pc.localDescription });
+        for (const candidate of pendingIceRef.current.get(from) ?? []) {
+          await pc.addIceCandidate(candidate).catch(() => {});
+        }
+        pendingIceRef.current.delete(from);
+      } catch {
+        // the presenter re-offers on ICE restart
+      }
+    };
+
+    const handleAnswer = async ({ from, answer }: { from: string; answer: RTCSessionDescriptionInit }) => {
+      const pc = linksRef.current.get(from);
+      if (!pc || !answer) return;
+      try {
+        await pc.setRemoteDescription(answer);
+      } catch {
+        // ignore stale answers
+      }
+    };
+
+    const handleIce = async ({ from, candidate }: { from: string; candidate: RTCIceCandidateInit }) => {
+      if (!from || !candidate) return;
+      const pc = linksRef.current.get(from);
+      if (!pc?.remoteDescription) {
+        // Candidates can overtake the offer while the viewer fetches ICE servers.
+        pendingIceRef.current.set(from, [...(pendingIceRef.current.get(from) ?? []), candidate]);
+        return;
+      }
+      try {
+        await pc.addIceCandidate(candidate);
+      } catch {
+        // ignore candidates for closed connections
+      }
+    };
+
+    const handleDisconnect = () => {
+      stopLocalShare();
+      closeAllLinks();
+      setPresenter(null);
+      setStream(null);
+    };
+
+    socket.on("presenter", handlePresenter);
+    socket.on("share-viewer-joined", handleViewerJoined);
+    socket.on("share-viewer-left", handleViewerLeft);
+    socket.on("share-offer", handleOffer);
+    socket.on("share-answer", handleAnswer);
+    socket.on("share-ice", handleIce);
+    socket.on("disconnect", handleDisconnect);
+
+    return () => {
+      socket.off("presenter", handlePresenter);
+      socket.off("share-viewer-joined", handleViewerJoined);
+      socket.off("share-viewer-left", handleViewerLeft);
+      socket.off("share-offer", handleOffer);
+      socket.off("share-answer", handleAnswer);
+      socket.off("share-ice", handleIce);
+      socket.off("disconnect", handleDisconnect);
+      stopShare();
+      closeAllLinks();
+    };
+  }, [socket]);
+
+  /** Resolves true once the server has made us the presenter. */
+  async function startShare() {
+    if (!socket || localStreamRef.current) return false;
+    setShareError("");
+    let display: MediaStream;
+    try {
+      display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    } catch {
+      // Also reached when the viewer cancels the browser's picker.
+      return false;
+    }
+
+    const reply: { ok?: boolean; error?: string; viewers?: string[] } = await socket
+      .timeout(SHARE_START_TIMEOUT_MS)
+      .emitWithAck("share-start", {})
+      .catch(() => {
+        // A late acceptance would leave the room waiting on a share that never starts.
+        socket.emit("share-stop");
+        return { ok: false, error: "The server didn't answer. Try sharing again." };
+      });
+    if (!reply?.ok) {
+      display.getTracks().forEach((track) => track.stop());
+      setShareError(reply?.error ?? "Could not start sharing.");
+      return false;
+    }
+
+    localStreamRef.current = display;
+    setStream(display);
+    // The browser's own "Stop sharing" button ends the video track.
+    display.getVideoTracks()[0]?.addEventListener("ended", stopShare);
+    closeAllLinks();
+    for (const peerId of reply.viewers ?? []) {
+      openPresenterLink(socket, peerId);
+    }
+    return true;
+  }
+
+  function stopShare() {
+    if (!localStreamRef.current) return;
+    stopLocalShare();
+    closeAllLinks();
+    setStream(null);
+    if (socket?.connected) {
+      socket.emit("share-stop");
+    }
+  }
+
+  function stopLocalShare() {
+    localStreamRef.current?.getTracks().forEach((track) => track.stop());
+    localStreamRef.current = null;
+  }
+
+  async function openPresenterLink(signaling: Socket, peerId: string) {
+    closeLink(peerId);
+    const iceServers = await loadIceServers(roomId);
+    const display = localStreamRef.current;
+    if (!display) return;
+
+    const pc = new RTCPeerConnection({ iceServers });
+    linksRef.current.set(peerId, pc);
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        signaling.emit("share-ice", { to: peerId, candidate: event.candidate });
+      }
+    };
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        await pc.setLocalDescription();
+        signaling.emit("share-offer", { to: peerId, offer: pc.localDescription });
+      } catch {
+        // ignore renegotiation errors
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "failed") {
+        pc.restartIce();
+      }
+    };
+
+    for (const track of display.getTracks()) {
+      pc.addTransceiver(track, { direction: "sendonly", streams: [display] });
+    }
+  }
+
+  function createViewerLink(signaling: Socket, presenterId: string, iceServers: RTCIceServer[]) {
+    const pc = new RTCPeerConnection({ iceServers });
+    linksRef.current.set(presenterId, pc);
+
+    pc.ontrack = (event) => {
+      setStream(event.streams[0] ?? new MediaStream([event.track]));
+    };
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        signaling.emit("share-ice", { to: presenterId, candidate: event.candidate });
+      }
+    };
+    return pc;
+  }
+
+  function closeLink(peerId: string) {
+    linksRef.current.get(peerId)?.close();
+    linksRef.current.delete(peerId);
+    pendingIceRef.current.delete(peerId);
+  }
+
+  function closeAllLinks() {
+    for (const peerId of Array.from(linksRef.current.keys())) {
+      closeLink(peerId);
+    }
+    pendingIceRef.current.clear();
+  }
+
+  const presenting = Boolean(socket && presenter?.peerId === socket.id);
+  return { presenter, presenting, stream, shareError, startShare, stopShare };
+}
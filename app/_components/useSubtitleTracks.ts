@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import type Hls from "hls.js";
+
+import { matchSubtitleChoice, type SubtitleChoice } from "@/lib/subtitles";
+
+export type SubtitleOption = {
+  id: number;
+  name: string;
+  language: string | null;
+  default: boolean;
+  forced: boolean;
+};
+
+export const SUBTITLES_OFF = -1;
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/**
+ * Lists the loaded video's subtitle tracks and switches between them, whether
+ * hls.js or the browser's own HLS support loaded them. The last choice is
+ * kept and re-applied when the next video's tracks arrive; until there is
+ * one, the playlist's default track is shown.
+ */
+export function useSubtitleTracks(videoRef: RefObject<HTMLVideoElement | null>, hlsRef: RefObject<Hls | null>) {
+  const preferredRef = useRef<SubtitleChoice | undefined>(undefined);
+  const optionsRef = useRef<SubtitleOption[]>([]);
+  const [options, setOptions] = useState<SubtitleOption[]>([]);
+  const [selectedId, setSelectedId] = useState(SUBTITLES_OFF);
+
+  useEffect(() => {
+    const tracks = videoRef.current?.textTracks;
+    if (!tracks) return;
+    // Native HLS adds its tracks after metadata loads; hls.js reports its own.
+    const handleAddTrack = () => {
+      if (!hlsRef.current) refresh();
+    };
+    tracks.addEventListener("addtrack", handleAddTrack);
+    return () => tracks.removeEventListener("addtrack", handleAddTrack);
+  }, []);
+
+  /** Re-reads the tracks after the source changes and applies the preferred one. */
+  function refresh() {
+    const next = readOptions();
+    optionsRef.current = next;
+    setOptions(next);
+    applyPreferred();
+  }
+
+  /** Shows a track picked in this player and returns it as a choice peers can match. */
+  function select(id: number): SubtitleChoice {
+    const option = optionsRef.current.find((item) => item.id === id);
+    const choice = option ? { name: option.name, language: option.language } : null;
+    preferredRef.current = choice;
+    show(option ? option.id : SUBTITLES_OFF);
+    return choice;
+  }
+
+  /** Applies a choice made elsewhere, such as by a peer or a previous session. */
+  function applyChoice(choice: SubtitleChoice) {
+    preferredRef.current = choice;
+    if (optionsRef.current.length) applyPreferred();
+  }
+
+  function applyPreferred() {
+    const current = optionsRef.current;
+    const preferred = preferredRef.current;
+    if (preferred === null) {
+      show(SUBTITLES_OFF);
+      return;
+    }
+    const fallback = current.find((option) => option.default && !option.forced) ?? current.find((option) => !option.forced);
+    const match = preferred ? matchSubtitleChoice(current, preferred) : undefined;
+    show((match ?? fallback)?.id ?? SUBTITLES_OFF);
+  }
+
+  function show(id: number) {
+    const hls = hlsRef.current;
+    if (hls) {
+      hls.subtitleTrack = id;
+      hls.subtitleDisplay = id !== SUBTITLES_OFF;
+    } else {
+      Array.from(videoRef.current?.textTracks ?? []).forEach((track, index) => {
+        track.mode = index === id ? "showing" : "disabled";
+      });
+    }
+    setSelectedId(id);
+  }
+
+  function readOptions(): SubtitleOption[] {
+    const hls = hlsRef.current;
+    if (hls) {
+      return hls.subtitleTracks.map((track, id) => ({
+        id,
+        name: track.name || languageLabel(track.lang),
+        language: track.lang || null,
+        default: track.default,
+        forced: track.forced,
+      }));
+    }
+    return Array.from(videoRef.current?.textTracks ?? []).flatMap((track, id) =>
+      track.kind === "subtitles" || track.kind === "captions"
+        ? [{ id, name: track.label || languageLabel(track.language), language: track.language || null, default: false, forced: false }]
+        : []
+    );
+  }
+
+  return { options, selectedId, refresh, select, applyChoice };
+}
+
+export function languageLabel(language: string | null | undefined) {
+  if (!language) return "Unknown";
+  try {
+    return languageNames.of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
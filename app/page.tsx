@@ -1,5 +1,5 @@
-import SyncPlayer from "./_components/SyncPlayer";
+import RoomLauncher from "./_components/RoomLauncher";
 
 export default function HomePage() {
-  return <SyncPlayer />;
+  return <RoomLauncher />;
 }
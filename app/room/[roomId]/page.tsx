@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+
+import SyncPlayer from "@/app/_components/SyncPlayer";
+import { isValidRoomId } from "@/lib/room-access";
+
+type RoomPageProps = {
+  params: Promise<{ roomId: string }>;
+  searchParams: Promise<{ invite?: string | string[] }>;
+};
+
+export default async function RoomPage({ params, searchParams }: RoomPageProps) {
+  const roomId = decodeRoomId((await params).roomId);
+  if (!roomId || !isValidRoomId(roomId)) notFound();
+  const { invite } = await searchParams;
+  const inviteToken = Array.isArray(invite) ? invite[0] : invite;
+  return <SyncPlayer key={roomId} roomId={roomId} inviteToken={inviteToken} />;
+}
+
+function decodeRoomId(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
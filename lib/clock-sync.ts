@@ -0,0 +1,32 @@
+export type ClockSample = {
+  offset: number;
+  rtt: number;
+  at: number;
+};
+
+const MAX_SAMPLES = 8;
+
+/**
+ * Builds one NTP-style sample from a ping: the client send time, the server
+ * receive time and the client receive time, all in milliseconds.
+ */
+export function createClockSample(sentAt: number, serverAt: number, receivedAt: number): ClockSample {
+  const rtt = Math.max(0, receivedAt - sentAt);
+  return {
+    offset: serverAt - (sentAt + rtt / 2),
+    rtt,
+    at: receivedAt,
+  };
+}
+
+export function addClockSample(samples: ClockSample[], sample: ClockSample) {
+  return [...samples, sample].slice(-MAX_SAMPLES);
+}
+
+/** The sample with the lowest round trip has the least asymmetric delay. */
+export function bestClockSample(samples: ClockSample[]) {
+  return samples.reduce<ClockSample | null>(
+    (best, sample) => (!best || sample.rtt < best.rtt ? sample : best),
+    null
+  );
+}
@@ -0,0 +1,33 @@
+const DUCKING_KEY = "pairwatch:ducking";
+
+export type DuckingSettings = {
+  enabled: boolean;
+  /** Fraction of the movie volume removed while someone talks, 0–1. */
+  depth: number;
+};
+
+export const DEFAULT_DUCKING: DuckingSettings = { enabled: true, depth: 0.6 };
+export const MIN_DUCKING_DEPTH = 0.2;
+export const MAX_DUCKING_DEPTH = 0.9;
+
+export function loadDuckingSettings(): DuckingSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DUCKING_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_DUCKING;
+    return {
+      enabled: typeof stored.enabled === "boolean" ? stored.enabled : DEFAULT_DUCKING.enabled,
+      depth: clampDuckingDepth(Number(stored.depth)),
+    };
+  } catch {
+    return DEFAULT_DUCKING;
+  }
+}
+
+export function saveDuckingSettings(settings: DuckingSettings) {
+  localStorage.setItem(DUCKING_KEY, JSON.stringify(settings));
+}
+
+export function clampDuckingDepth(value: number) {
+  if (!Number.isFinite(value)) return DEFAULT_DUCKING.depth;
+  return Math.min(MAX_DUCKING_DEPTH, Math.max(MIN_DUCKING_DEPTH, value));
+}
@@ -0,0 +1,38 @@
+export type EpisodeInfo = {
+  show: string;
+  season: number;
+  episode: number;
+  title: string | null;
+};
+
+/** Seconds into an episode where its intro starts and ends, from the show's intro sidecar. */
+export type IntroRange = {
+  start: number;
+  end: number;
+};
+
+/** `S01E02` style code for an episode. */
+export function formatEpisodeCode(info: EpisodeInfo) {
+  return `S${String(info.season).padStart(2, "0")}E${String(info.episode).padStart(2, "0")}`;
+}
+
+export function describeEpisode(info: EpisodeInfo) {
+  const code = `${info.show} ${formatEpisodeCode(info)}`;
+  return info.title ? `${code} · ${info.title}` : code;
+}
+
+/** The episode of the same show that follows `current` in season/episode order, if the list has one. */
+export function findNextEpisode<T extends { name: string; episode: EpisodeInfo | null }>(videos: T[], current: string) {
+  const info = videos.find((video) => video.name === current)?.episode;
+  if (!info) return null;
+  const show = info.show.toLowerCase();
+  const position = (episode: EpisodeInfo) => episode.season * 10_000 + episode.episode;
+  let next: T | null = null;
+  for (const video of videos) {
+    const candidate = video.episode;
+    if (!candidate || candidate.show.toLowerCase() !== show) continue;
+    if (position(candidate) <= position(info)) continue;
+    if (!next?.episode || position(candidate) < position(next.episode)) next = video;
+  }
+  return next;
+}
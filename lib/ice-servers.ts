@@ -0,0 +1,31 @@
+import { loadRoomToken } from "@/lib/room-access";
+
+const apiBase = process.env.NEXT_PUBLIC_SERVER_URL ?? "http://localhost:3000";
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+// Refetch TURN credentials this long before they expire.
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, { iceServers: RTCIceServer[]; expiresAt: number }>();
+
+/**
+ * Returns the ICE servers for a room's peer connections, including
+ * short-lived TURN credentials from the sync server. Falls back to public
+ * STUN when the server can't be reached, which still works on most networks.
+ */
+export async function loadIceServers(roomId: string): Promise<RTCIceServer[]> {
+  const cached = cache.get(roomId);
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) return cached.iceServers;
+  try {
+    const response = await fetch(`${apiBase}/api/ice-servers`, {
+      cache: "no-store",
+      headers: { Authorization: `Bearer ${loadRoomToken(roomId) ?? ""}` },
+    });
+    if (!response.ok) throw new Error(`ICE server request failed: ${response.status}`);
+    const data: { iceServers?: RTCIceServer[]; ttl?: number } = await response.json();
+    const iceServers = data.iceServers?.length ? data.iceServers : FALLBACK_ICE_SERVERS;
+    cache.set(roomId, { iceServers, expiresAt: Date.now() + (data.ttl ?? 0) * 1000 });
+    return iceServers;
+  } catch {
+    return FALLBACK_ICE_SERVERS;
+  }
+}
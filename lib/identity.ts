@@ -0,0 +1,48 @@
+const USER_ID_KEY = "pairwatch:userId";
+const DISPLAY_NAME_KEY = "pairwatch:displayName";
+const MAX_DISPLAY_NAME_LENGTH = 32;
+
+export type Identity = {
+  userId: string;
+  name: string;
+};
+
+/**
+ * Returns the browser's persisted identity, creating one on first use so a
+ * reload or reconnect keeps the same user id.
+ */
+export function loadIdentity(): Identity {
+  let userId = localStorage.getItem(USER_ID_KEY);
+  if (!userId) {
+    userId = createUserId();
+    localStorage.setItem(USER_ID_KEY, userId);
+  }
+  let name = localStorage.getItem(DISPLAY_NAME_KEY);
+  if (!name) {
+    name = `Guest ${userId.slice(0, 4).toUpperCase()}`;
+    localStorage.setItem(DISPLAY_NAME_KEY, name);
+  }
+  return { userId, name };
+}
+
+// randomUUID only exists in secure contexts, so plain http on a LAN address
+// gets an id in the same format built from getRandomValues instead.
+function createUserId() {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function saveDisplayName(value: string) {
+  const name = normalizeDisplayName(value);
+  if (!name) return null;
+  localStorage.setItem(DISPLAY_NAME_KEY, name);
+  return name;
+}
+
+export function normalizeDisplayName(value: string) {
+  return value.replace(/\s+/g, " ").trim().slice(0, MAX_DISPLAY_NAME_LENGTH);
+}
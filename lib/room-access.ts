@@ -0,0 +1,40 @@
+const ROOM_TOKEN_PREFIX = "pairwatch:roomToken:";
+// Same rule the sync server applies to room ids in join-room.
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type RoomRole = "host" | "guest";
+
+/**
+ * Reads the role claimed by a room token without verifying it. The server
+ * checks the signature; this only keeps a stored host token from being
+ * replaced by a guest invite for the same room.
+ */
+export function readTokenRole(token: string): RoomRole | null {
+  const [payload] = token.split(".");
+  if (!payload) return null;
+  try {
+    const normalized = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(normalized));
+    return claims?.role === "host" || claims?.role === "guest" ? claims.role : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isValidRoomId(roomId: string) {
+  return ROOM_ID_PATTERN.test(roomId);
+}
+
+export function loadRoomToken(roomId: string) {
+  return localStorage.getItem(`${ROOM_TOKEN_PREFIX}${roomId}`);
+}
+
+export function storeRoomToken(roomId: string, token: string) {
+  const existing = loadRoomToken(roomId);
+  if (existing && readTokenRole(existing) === "host" && readTokenRole(token) !== "host") return;
+  localStorage.setItem(`${ROOM_TOKEN_PREFIX}${roomId}`, token);
+}
+
+export function clearRoomToken(roomId: string) {
+  localStorage.removeItem(`${ROOM_TOKEN_PREFIX}${roomId}`);
+}
@@ -0,0 +1,57 @@
+const SUBTITLE_KEY = "pairwatch:subtitles";
+
+export type SubtitleSize = "small" | "medium" | "large";
+export type SubtitleBackground = "none" | "translucent" | "solid";
+
+/** A track as peers see it; null means subtitles off. Index numbers differ between players, so it's matched by name and language. */
+export type SubtitleChoice = { name: string; language: string | null } | null;
+
+export type SubtitlePreferences = {
+  size: SubtitleSize;
+  background: SubtitleBackground;
+  /** Last track picked; undefined until the viewer picks one, so the video's default track is used. */
+  choice?: SubtitleChoice;
+};
+
+export const SUBTITLE_SIZES: SubtitleSize[] = ["small", "medium", "large"];
+export const SUBTITLE_BACKGROUNDS: SubtitleBackground[] = ["none", "translucent", "solid"];
+export const DEFAULT_SUBTITLE_PREFERENCES: SubtitlePreferences = { size: "medium", background: "translucent" };
+
+export function loadSubtitlePreferences(): SubtitlePreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SUBTITLE_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_SUBTITLE_PREFERENCES;
+    const preferences: SubtitlePreferences = {
+      size: SUBTITLE_SIZES.includes(stored.size) ? stored.size : DEFAULT_SUBTITLE_PREFERENCES.size,
+      background: SUBTITLE_BACKGROUNDS.includes(stored.background)
+        ? stored.background
+        : DEFAULT_SUBTITLE_PREFERENCES.background,
+    };
+    if ("choice" in stored) preferences.choice = normalizeSubtitleChoice(stored.choice);
+    return preferences;
+  } catch {
+    return DEFAULT_SUBTITLE_PREFERENCES;
+  }
+}
+
+export function saveSubtitlePreferences(preferences: SubtitlePreferences) {
+  localStorage.setItem(SUBTITLE_KEY, JSON.stringify(preferences));
+}
+
+export function normalizeSubtitleChoice(value: unknown): SubtitleChoice {
+  if (!value || typeof value !== "object") return null;
+  const { name, language } = value as { name?: unknown; language?: unknown };
+  if (typeof name !== "string") return null;
+  return { name, language: typeof language === "string" && language ? language : null };
+}
+
+/** Picks the option matching a choice by name and language, falling back to language alone. */
+export function matchSubtitleChoice<T extends { name: string; language: string | null }>(
+  options: T[],
+  choice: NonNullable<SubtitleChoice>
+) {
+  return (
+    options.find((option) => option.name === choice.name && option.language === choice.language) ??
+    (choice.language ? options.find((option) => option.language === choice.language) : undefined)
+  );
+}
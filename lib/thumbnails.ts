@@ -0,0 +1,78 @@
+export type ThumbnailCue = {
+  start: number;
+  end: number;
+  /** Sprite sheet URL, absolute. */
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+const trackCache = new Map<string, Promise<ThumbnailCue[]>>();
+
+/** Loads a WebVTT thumbnail track whose cues point at sprite tiles with `#xywh=x,y,w,h`. Cached per URL. */
+export function loadThumbnailTrack(trackUrl: string) {
+  let pending = trackCache.get(trackUrl);
+  if (!pending) {
+    pending = fetch(trackUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Thumbnail track returned ${response.status}`);
+        return response.text();
+      })
+      .then((text) => parseThumbnailTrack(text, trackUrl))
+      .catch(() => {
+        // Try again next time instead of caching the failure.
+        trackCache.delete(trackUrl);
+        return [];
+      });
+    trackCache.set(trackUrl, pending);
+  }
+  return pending;
+}
+
+export function parseThumbnailTrack(text: string, trackUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+  for (const block of text.replace(/\r\n?/g, "\n").split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    const target = lines[timingIndex + 1]?.trim();
+    if (timingIndex === -1 || !target) continue;
+    const [startText, endText = ""] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startText.trim());
+    const end = parseTimestamp(endText.trim().split(/\s+/)[0]);
+    const [path, fragment = ""] = target.split("#");
+    const box = /^xywh=(\d+),(\d+),(\d+),(\d+)$/.exec(fragment);
+    if (start === null || end === null || !box) continue;
+    cues.push({
+      start,
+      end,
+      url: new URL(path, trackUrl).toString(),
+      x: Number(box[1]),
+      y: Number(box[2]),
+      width: Number(box[3]),
+      height: Number(box[4]),
+    });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/** The cue covering `time`, by binary search over cues sorted by start. */
+export function findThumbnail(cues: ThumbnailCue[], time: number) {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].end <= time) low = mid + 1;
+    else if (cues[mid].start > time) high = mid - 1;
+    else return cues[mid];
+  }
+  return null;
+}
+
+function parseTimestamp(value: string) {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(value);
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
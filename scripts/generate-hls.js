@@ -1,7 +1,16 @@
 import fs from "fs";
 import path from "path";
-import { spawn } from "child_process";
 import { fileURLToPath } from "url";
+import {
+  MASTER_PLAYLIST_NAME,
+  METADATA_FILE_NAME,
+  hlsOutputDir,
+  listVideoFiles,
+  renderTranscodeProgress,
+  transcodeToHls,
+  writeVideoMetadata,
+} from "../transcoder/index.js";
+import { fileExists } from "../server/fs-utils.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -13,12 +22,7 @@ const hlsDir = path.join(projectRoot, "hls");
 async function main() {
   await fs.promises.mkdir(hlsDir, { recursive: true });
 
-  const entries = await fs.promises.readdir(videosDir, { withFileTypes: true });
-  const files = entries
-    .filter((entry) => entry.isFile())
-    .map((entry) => entry.name)
-    .filter(isVideoFile)
-    .sort();
+  const files = await listVideoFiles(videosDir);
 
   const requested = process.argv.slice(2);
   const selection = requested.length
@@ -39,97 +43,33 @@ async function main() {
 
   for (const file of selection) {
     const inputPath = path.join(videosDir, file);
-    const hlsId = encodeHlsId(file);
-    const outputDir = path.join(hlsDir, hlsId);
-    const playlist = path.join(outputDir, "index.m3u8");
+    const outputDir = hlsOutputDir(hlsDir, file);
+    const playlist = path.join(outputDir, MASTER_PLAYLIST_NAME);
 
     await fs.promises.mkdir(outputDir, { recursive: true });
 
     if (await fileExists(playlist)) {
+      if (!(await fileExists(path.join(outputDir, METADATA_FILE_NAME)))) {
+        console.log(`Adding library metadata for ${file}...`);
+        await writeVideoMetadata(inputPath, outputDir, { onWarning: (message) => console.warn(message) });
+      }
       console.log(`HLS already exists for ${file}. Skipping.`);
       continue;
     }
 
     console.log(`Generating HLS for ${file}...`);
-    await runFFmpeg(inputPath, outputDir, playlist);
-  }
-}
-
-function runFFmpeg(inputPath, outputDir, playlist) {
-  return new Promise((resolve, reject) => {
-    const segmentPattern = path.join(outputDir, "%03d.ts");
-    const segmentSeconds = 2;
-    const args = [
-      "-i",
+    const { subtitles } = await transcodeToHls(
       inputPath,
-      "-preset",
-      "veryfast",
-      "-c:v",
-      "libx264",
-      "-profile:v",
-      "main",
-      "-level",
-      "4.1",
-      "-pix_fmt",
-      "yuv420p",
-      "-crf",
-      "23",
-      "-maxrate",
-      "3500k",
-      "-bufsize",
-      "7000k",
-      "-g",
-      "48",
-      "-keyint_min",
-      "48",
-      "-sc_threshold",
-      "0",
-      "-force_key_frames",
-      `expr:gte(t,n_forced*${segmentSeconds})`,
-      "-c:a",
-      "aac",
-      "-b:a",
-      "128k",
-      "-ac",
-      "2",
-      "-hls_time",
-      String(segmentSeconds),
-      "-hls_list_size",
-      "0",
-      "-hls_playlist_type",
-      "vod",
-      "-hls_flags",
-      "independent_segments",
-      "-hls_segment_filename",
-      segmentPattern,
-      playlist,
-    ];
-
-    const proc = spawn("ffmpeg", args, { stdio: "inherit" });
-
-    proc.on("error", (err) => reject(err));
-    proc.on("close", (code) => {
-      if (code === 0) return resolve();
-      reject(new Error(`ffmpeg exited with code ${code}`));
-    });
-  });
-}
-
-function encodeHlsId(name) {
-  return Buffer.from(name).toString("base64url");
-}
-
-function isVideoFile(name) {
-  const ext = path.extname(name).toLowerCase();
-  return [".mp4", ".mov", ".webm", ".mkv", ".m4v"].includes(ext);
-}
-
-async function fileExists(filePath) {
-  try {
-    await fs.promises.access(filePath, fs.constants.F_OK);
-    return true;
-  } catch (_err) {
-    return false;
+      outputDir,
+      { ladder: process.env.HLS_LADDER },
+      {
+        onProgress: renderTranscodeProgress(`Encoding ${file}`),
+        onWarning: (message) => console.warn(message),
+      }
+    );
+    if (subtitles.length) {
+      console.log(`Subtitles: ${subtitles.map((track) => track.name).join(", ")}`);
+    }
   }
 }
 
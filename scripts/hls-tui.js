@@ -4,6 +4,7 @@ import { spawn } from "child_process";
 import { fileURLToPath } from "url";
 import readline from "readline/promises";
 import { stdin as input, stdout as output } from "process";
+import { listVideoFiles } from "../transcoder/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -33,17 +34,7 @@ async function main() {
 }
 
 async function listVideos() {
-  const entries = await fs.promises.readdir(videosDir, { withFileTypes: true });
-  return entries
-    .filter((entry) => entry.isFile())
-    .map((entry) => entry.name)
-    .filter(isVideoFile)
-    .sort();
-}
-
-function isVideoFile(name) {
-  const ext = path.extname(name).toLowerCase();
-  return [".mp4", ".mov", ".webm", ".mkv", ".m4v"].includes(ext);
+  return listVideoFiles(videosDir);
 }
 
 async function promptSelection(files) {
@@ -1,9 +1,20 @@
 import express from "express";
 import http from "http";
 import { Server } from "socket.io";
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createChatStore } from "./server/chat-store.js";
+import { parseEpisode, readEpisodeIntro } from "./server/episodes.js";
+import { fileExists } from "./server/fs-utils.js";
+import { buildMasterPlaylist } from "./server/hls-master.js";
+import { iceServersFor, loadIceConfig } from "./server/ice-servers.js";
+import { applyStateUpdate, sanitizeStateUpdate, snapshotState } from "./server/playback-state.js";
+import { createProgressStore } from "./server/progress-store.js";
+import { createRoomToken, verifyRoomToken } from "./server/room-tokens.js";
+import { REMOTE_HLS_ROUTE, createStorageBackends } from "./server/storage.js";
+import { parseLibraryQuery, queryLibrary } from "./server/video-library.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,7 +37,37 @@ const io = new Server(server, {
 const PORT = process.env.PORT || 3000;
 const VIDEOS_DIR = path.join(__dirname, "videos");
 const HLS_DIR = path.join(__dirname, "hls");
+const DATA_DIR = process.env.DATA_DIR
+  ? path.resolve(process.env.DATA_DIR)
+  : path.join(__dirname, "data");
 const SERVER_VERSION = Date.now().toString();
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_DISPLAY_NAME_LENGTH = 32;
+const MAX_CHAT_LENGTH = 2000;
+const MAX_QUEUE_LENGTH = 100;
+const NEXT_EPISODE_COUNTDOWN_MS = 10_000;
+// Playback changes that mean the room has moved on from a finished episode.
+const AUTOPLAY_CANCELLING_REASONS = new Set(["play", "seek", "seeked", "video-change"]);
+const MAX_CALL_PARTICIPANTS = Number.parseInt(process.env.MAX_CALL_PARTICIPANTS ?? "5", 10) || 5;
+const INVITE_TTL_MS = (Number.parseInt(process.env.INVITE_TTL_HOURS ?? "168", 10) || 168) * 60 * 60 * 1000;
+const HOST_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const ROOM_SECRET = loadRoomSecret();
+const ICE_CONFIG = loadIceConfig();
+const CHAT_HISTORY_LIMIT = Number.parseInt(process.env.CHAT_HISTORY_LIMIT ?? "200", 10) || 200;
+const EMPTY_ROOM_TTL_MS = 6 * 60 * 60 * 1000;
+
+const rooms = new Map();
+const chatStore = createChatStore({
+  dir: path.join(DATA_DIR, "chat"),
+  limit: CHAT_HISTORY_LIMIT,
+});
+const storageBackends = createStorageBackends({ rootDir: __dirname, videosDir: VIDEOS_DIR, hlsDir: HLS_DIR });
+const remoteStorage = storageBackends.find((backend) => backend.serve) ?? null;
+const progressStore = createProgressStore({ file: path.join(DATA_DIR, "progress.json") });
+const emptyRoomTimers = new Map();
+// Progress secrets handed to each joined socket, mapped to its socket id.
+const progressTokens = new Map();
 
 app.use((req, res, next) => {
   const origin = req.headers.origin;
@@ -36,7 +77,7 @@ app.use((req, res, next) => {
     res.setHeader("Access-Control-Allow-Origin", origin);
   }
   res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
   if (req.method === "OPTIONS") {
     res.sendStatus(204);
     return;
@@ -56,7 +97,7 @@ app.use(
         res.setHeader("Cache-Control", "public, max-age=3600");
         return;
       }
-      if (filePath.endsWith(".ts")) {
+      if (filePath.endsWith(".ts") || filePath.endsWith(".jpg")) {
         res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
       }
     },
@@ -68,41 +109,108 @@ app.get("/api/version", (_req, res) => {
   res.json({ version: SERVER_VERSION });
 });
 
-app.get("/api/videos", async (_req, res) => {
-  try {
-    const entries = await fs.promises.readdir(VIDEOS_DIR, { withFileTypes: true });
-    const files = entries
-      .filter((entry) => entry.isFile())
-      .map((entry) => entry.name)
-      .sort();
-
-    const videos = files.filter(isVideoFile);
-
-    const payload = await Promise.all(
-      videos.map(async (name) => {
-        const hlsId = encodeHlsId(name);
-        const playlistPath = path.join(HLS_DIR, hlsId, "index.m3u8");
-        const subtitlePlaylistPath = path.join(HLS_DIR, hlsId, "index_vtt.m3u8");
-        const hlsReady = await fileExists(playlistPath);
-        const hlsSubtitles = await fileExists(subtitlePlaylistPath);
-        return {
-          name,
-          hls: hlsReady,
-          hlsPath: hlsReady ? `/hls/${hlsId}/index.m3u8` : null,
-          hlsMasterPath: hlsReady
-            ? hlsSubtitles
-              ? `/api/hls/${hlsId}/master.m3u8`
-              : `/hls/${hlsId}/index.m3u8`
-            : null,
-          hlsSubtitles,
-        };
-      })
-    );
+app.get("/api/videos", async (req, res) => {
+  const query = parseLibraryQuery(req.query);
+  if (!query) {
+    res.status(400).json({ error: "Invalid folder." });
+    return;
+  }
 
-    res.json({ files: payload });
-  } catch (_err) {
+  // One unreachable backend shouldn't hide the others' videos.
+  const listings = await Promise.all(
+    storageBackends.map((backend) =>
+      backend.listVideos().catch((error) => {
+        console.error(`Failed to list videos from the ${backend.name} storage:`, error);
+        return null;
+      })
+    )
+  );
+  if (!listings.some(Boolean)) {
     res.status(500).json({ error: "Failed to read videos directory." });
+    return;
+  }
+
+  // Earlier backends win when two hold a video with the same name.
+  const videos = new Map();
+  for (const video of listings.flatMap((listing) => listing ?? [])) {
+    if (!videos.has(video.name)) videos.set(video.name, video);
+  }
+  const payload = await Promise.all(
+    [...videos.values()].map(async (video) => {
+      const episode = parseEpisode(video.name);
+      return {
+        ...video,
+        episode,
+        intro: episode ? await readEpisodeIntro(VIDEOS_DIR, video.name, episode) : null,
+      };
+    })
+  );
+  res.json(queryLibrary(payload, query));
+});
+
+if (remoteStorage) {
+  app.get(`${REMOTE_HLS_ROUTE}/:id/*`, async (req, res) => {
+    try {
+      await remoteStorage.serve(req.params.id, req.params[0], req, res);
+    } catch (error) {
+      console.error(`Failed to serve ${req.path}:`, error);
+      if (!res.headersSent) res.sendStatus(502);
+    }
+  });
+}
+
+app.post("/api/rooms", (_req, res) => {
+  const roomId = crypto.randomBytes(6).toString("hex");
+  const now = Date.now();
+  const hostToken = createRoomToken({ roomId, role: "host", expiresAt: now + HOST_TOKEN_TTL_MS }, ROOM_SECRET);
+  const inviteToken = createInviteToken(roomId, now);
+  res.status(201).json({
+    roomId,
+    hostToken,
+    inviteToken,
+    invitePath: `/room/${roomId}?invite=${inviteToken}`,
+  });
+});
+
+app.get("/api/ice-servers", (req, res) => {
+  const grant = bearerGrant(req);
+  if (!grant) {
+    res.status(401).json({ error: "A valid room token is required." });
+    return;
   }
+  res.set("Cache-Control", "no-store, max-age=0");
+  res.json(iceServersFor(ICE_CONFIG, grant.roomId));
+});
+
+app.get("/api/progress", async (req, res) => {
+  const userId = normalizeUserId(req.query.userId);
+  if (!userId) {
+    res.status(400).json({ error: "A valid userId is required." });
+    return;
+  }
+  if (!authorizeProgress(req, res, userId)) return;
+  res.set("Cache-Control", "no-store, max-age=0");
+  res.json({ progress: await progressStore.forUser(userId) });
+});
+
+app.post("/api/progress", express.json({ limit: "16kb" }), async (req, res) => {
+  const body = req.body ?? {};
+  const userId = normalizeUserId(body.userId);
+  const video = normalizeVideoName(body.video);
+  const time = Number(body.time);
+  const duration = Number(body.duration ?? 0);
+  if (!userId || !video || !Number.isFinite(time) || time < 0 || !Number.isFinite(duration) || duration < 0) {
+    res.status(400).json({ error: "Expected userId, video, time and duration." });
+    return;
+  }
+  if (!authorizeProgress(req, res, userId)) return;
+  const entry = await progressStore.record(userId, {
+    video,
+    time,
+    duration,
+    finished: body.finished === true,
+  });
+  res.json({ video, progress: entry });
 });
 
 app.get("/api/hls/:id/master.m3u8", async (req, res) => {
@@ -115,91 +223,446 @@ app.get("/api/hls/:id/master.m3u8", async (req, res) => {
     return;
   }
 
-  const videoPlaylist = path.join(baseDir, "index.m3u8");
-  const subtitlePlaylist = path.join(baseDir, "index_vtt.m3u8");
-
-  if (!(await fileExists(videoPlaylist))) {
+  if (!(await fileExists(path.join(baseDir, "index.m3u8")))) {
     res.sendStatus(404);
     return;
   }
 
-  const hasSubtitles = await fileExists(subtitlePlaylist);
-  const master = [
-    "#EXTM3U",
-    "#EXT-X-VERSION:3",
-    ...(hasSubtitles
-      ? [
-        `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID=\"subs\",NAME=\"English\",DEFAULT=YES,AUTOSELECT=YES,LANGUAGE=\"en\",URI=\"${baseUrl}/index_vtt.m3u8\"`,
-      ]
-      : []),
-    `#EXT-X-STREAM-INF:BANDWIDTH=1200000${hasSubtitles ? ',SUBTITLES=\"subs\"' : ""}`,
-    `${baseUrl}/index.m3u8`,
-    "",
-  ].join("\n");
-
-  res.type("application/vnd.apple.mpegurl");
-  res.send(master);
+  try {
+    const master = await buildMasterPlaylist({ dir: baseDir, baseUrl });
+    res.type("application/vnd.apple.mpegurl");
+    res.send(master);
+  } catch (_err) {
+    res.status(500).json({ error: "Failed to read the HLS playlists." });
+  }
+});
+
+io.use((socket, next) => {
+  const grant = verifyRoomToken(socket.handshake.auth?.token, ROOM_SECRET);
+  if (!grant) {
+    next(new Error("unauthorized"));
+    return;
+  }
+  socket.data.grant = grant;
+  socket.data.role = grant.role;
+  next();
 });
 
 io.on("connection", (socket) => {
   socket.emit("server-version", { version: SERVER_VERSION });
-  io.emit("room-info", { count: io.engine.clientsCount });
-  socket.broadcast.emit("request-state", { requester: socket.id });
+
+  socket.on("join-room", ({ roomId, userId, name } = {}) => {
+    const room = normalizeRoomId(roomId);
+    if (!room) {
+      socket.emit("room-error", { error: "This room link is not valid." });
+      return;
+    }
+    if (socket.data.grant.roomId !== room) {
+      socket.emit("room-error", { error: "This invite is for a different room." });
+      return;
+    }
+    socket.data.userId = normalizeUserId(userId) ?? socket.data.userId ?? socket.id;
+    socket.data.name = normalizeDisplayName(name) ?? socket.data.name ?? "Guest";
+    const previous = socket.data.roomId;
+    if (previous === room) {
+      emitRoomInfo(room);
+      return;
+    }
+    if (previous) {
+      socket.leave(previous);
+      const previousData = rooms.get(previous);
+      if (previousData) {
+        markReady(previous, previousData, socket.id);
+        leaveCall(previous, socket.id);
+        leaveShare(previous, socket.id);
+      }
+      emitRoomInfo(previous);
+      if (roomSize(previous) === 0) {
+        scheduleRoomExpiry(previous);
+      }
+    }
+    socket.join(room);
+    socket.data.roomId = room;
+    cancelRoomExpiry(room);
+    emitRoomInfo(room);
+
+    chatStore
+      .history(room)
+      .then((messages) => socket.emit("chat-history", { roomId: room, messages }))
+      .catch((err) => console.error(`Failed to load chat for room ${room}:`, err));
+
+    const roomData = getRoom(room);
+    if (!socket.data.progressToken) {
+      socket.data.progressToken = crypto.randomBytes(24).toString("base64url");
+      progressTokens.set(socket.data.progressToken, socket.id);
+    }
+    socket.emit("room-access", {
+      role: socket.data.role,
+      locked: roomData.locked,
+      inviteToken: createInviteToken(room),
+      progressToken: socket.data.progressToken,
+    });
+    socket.emit("room-settings", roomSettings(roomData));
+    if (roomData.syncSubtitles && roomData.subtitleChoice) {
+      socket.emit("subtitle-track", roomData.subtitleChoice);
+    }
+    socket.emit("buffering-status", { waitingFor: bufferingUsers(roomData) });
+    socket.emit("queue", { items: roomData.queue });
+    if (roomData.autoplay) {
+      socket.emit("autoplay", { autoplay: describeAutoplay(roomData) });
+    }
+    socket.emit("presenter", { presenter: roomData.presenter });
+    if (roomData.presenter) {
+      io.to(roomData.presenter.peerId).emit("share-viewer-joined", { peerId: socket.id });
+    }
+    if (roomData.playback) {
+      const now = Date.now();
+      socket.emit("state", { state: snapshotState(roomData.playback, now, "join"), at: now });
+      return;
+    }
+    socket.to(room).emit("request-state", { requester: socket.id });
+  });
+
+  socket.on("update-profile", ({ name } = {}) => {
+    const displayName = normalizeDisplayName(name);
+    if (!displayName) return;
+    socket.data.name = displayName;
+    if (socket.data.roomId) {
+      emitRoomInfo(socket.data.roomId);
+    }
+  });
+
+  socket.on("time-sync", (payload, ack) => {
+    if (typeof ack !== "function") return;
+    ack({ sentAt: payload?.sentAt ?? null, serverAt: Date.now() });
+  });
 
   socket.on("state", ({ state }) => {
-    if (!state) return;
-    socket.broadcast.emit("state", { state, at: Date.now() });
+    const room = socket.data.roomId;
+    const update = sanitizeStateUpdate(state);
+    if (!room || !update) return;
+    const now = Date.now();
+    const roomData = getRoom(room);
+    if (roomData.locked && socket.data.role !== "host") {
+      socket.emit("state-rejected", { reason: "locked" });
+      if (roomData.playback) {
+        socket.emit("state", {
+          state: snapshotState(roomData.playback, now, "locked"),
+          at: now,
+          origin: "server",
+        });
+      }
+      return;
+    }
+    roomData.playback = applyStateUpdate(roomData.playback, update, now);
+    if (update.reason === "pause" || update.reason === "play") {
+      roomData.resumeAfterBuffering = false;
+    }
+    if (AUTOPLAY_CANCELLING_REASONS.has(update.reason)) {
+      cancelAutoplay(room, roomData);
+    }
+    socket.to(room).emit("state", { state: snapshotState(roomData.playback, now, update.reason), at: now });
+  });
+
+  socket.on("room-lock", ({ locked } = {}) => {
+    const room = socket.data.roomId;
+    if (!room || typeof locked !== "boolean" || socket.data.role !== "host") return;
+    const roomData = getRoom(room);
+    roomData.locked = locked;
+    io.to(room).emit("room-lock", { locked });
+    if (locked) {
+      for (const socketId of roomData.buffering) {
+        if (io.sockets.sockets.get(socketId)?.data.role !== "host") markReady(room, roomData, socketId);
+      }
+    }
+  });
+
+  socket.on("room-settings", (payload) => {
+    const room = socket.data.roomId;
+    if (!room || !payload) return;
+    const hasWaitForAll = typeof payload.waitForAll === "boolean";
+    const hasSyncSubtitles = typeof payload.syncSubtitles === "boolean";
+    if (!hasWaitForAll && !hasSyncSubtitles) return;
+    const roomData = getRoom(room);
+    if (rejectWhenLocked(socket, roomData)) {
+      socket.emit("room-settings", roomSettings(roomData));
+      return;
+    }
+    if (hasWaitForAll) {
+      roomData.waitForAll = payload.waitForAll;
+      if (!roomData.waitForAll) {
+        clearBuffering(room, roomData);
+      }
+    }
+    if (hasSyncSubtitles) {
+      roomData.syncSubtitles = payload.syncSubtitles;
+      if (!roomData.syncSubtitles) roomData.subtitleChoice = null;
+    }
+    io.to(room).emit("room-settings", roomSettings(roomData));
+  });
+
+  socket.on("subtitle-track", ({ track } = {}) => {
+    const room = socket.data.roomId;
+    if (!room) return;
+    const roomData = getRoom(room);
+    if (!roomData.syncSubtitles) return;
+    if (rejectWhenLocked(socket, roomData)) {
+      if (roomData.subtitleChoice) socket.emit("subtitle-track", roomData.subtitleChoice);
+      return;
+    }
+    roomData.subtitleChoice = { track: normalizeSubtitleTrack(track) };
+    socket.to(room).emit("subtitle-track", roomData.subtitleChoice);
+  });
+
+  socket.on("queue-add", ({ video } = {}) => {
+    const room = socket.data.roomId;
+    const name = normalizeVideoName(video);
+    if (!room || !name) return;
+    const roomData = getRoom(room);
+    if (rejectWhenLocked(socket, roomData) || roomData.queue.length >= MAX_QUEUE_LENGTH) return;
+    roomData.queue.push({
+      id: crypto.randomUUID(),
+      video: name,
+      addedBy: socket.data.userId,
+      addedByName: socket.data.name,
+    });
+    emitQueue(room, roomData);
+  });
+
+  socket.on("queue-remove", ({ id } = {}) => {
+    const room = socket.data.roomId;
+    if (!room || typeof id !== "string") return;
+    const roomData = getRoom(room);
+    if (rejectWhenLocked(socket, roomData)) return;
+    const index = roomData.queue.findIndex((item) => item.id === id);
+    if (index === -1) return;
+    roomData.queue.splice(index, 1);
+    emitQueue(room, roomData);
+  });
+
+  socket.on("queue-move", ({ id, toIndex } = {}) => {
+    const room = socket.data.roomId;
+    if (!room || typeof id !== "string" || !Number.isInteger(toIndex)) return;
+    const roomData = getRoom(room);
+    if (rejectWhenLocked(socket, roomData)) return;
+    const index = roomData.queue.findIndex((item) => item.id === id);
+    if (index === -1) return;
+    const [item] = roomData.queue.splice(index, 1);
+    const target = Math.min(Math.max(toIndex, 0), roomData.queue.length);
+    roomData.queue.splice(target, 0, item);
+    emitQueue(room, roomData);
+  });
+
+  socket.on("queue-advance", ({ fromVideo, nextEpisode } = {}) => {
+    const room = socket.data.roomId;
+    if (!room) return;
+    const roomData = getRoom(room);
+    // Every peer reports "ended"; only the first report for the current video advances.
+    if (roomData.playback && fromVideo !== roomData.playback.video) return;
+    const next = roomData.queue.shift();
+    if (!next) {
+      // The queue wins over series order; without one, count down to the next episode.
+      const episode = normalizeVideoName(nextEpisode);
+      if (episode && !roomData.autoplay) startAutoplay(room, roomData, episode);
+      return;
+    }
+    cancelAutoplay(room, roomData);
+    emitQueue(room, roomData);
+    broadcastPlayback(room, roomData, { video: next.video, time: 0, paused: false, reason: "queue-advance" });
+  });
+
+  socket.on("autoplay-cancel", () => {
+    const room = socket.data.roomId;
+    if (!room) return;
+    const roomData = getRoom(room);
+    if (roomData.locked && socket.data.role !== "host") return;
+    cancelAutoplay(room, roomData, socket.data.name);
+  });
+
+  socket.on("buffering", (payload) => {
+    const room = socket.data.roomId;
+    if (!room || !payload || typeof payload.buffering !== "boolean") return;
+    const roomData = getRoom(room);
+    if (!roomData.waitForAll) return;
+    // Guests can't hold a locked room; a report from before the lock still clears.
+    if (payload.buffering && !(roomData.locked && socket.data.role !== "host")) {
+      markBuffering(room, roomData, socket.id);
+    } else {
+      markReady(room, roomData, socket.id);
+    }
   });
 
   socket.on("request-state", ({ requester }) => {
-    if (!requester) return;
-    socket.broadcast.emit("request-state", { requester });
+    const room = socket.data.roomId;
+    if (!room || !requester) return;
+    socket.to(room).emit("request-state", { requester });
   });
 
   socket.on("reply-state", ({ to, state }) => {
-    if (!to || !state) return;
-    io.to(to).emit("state", { state, at: Date.now() });
+    const room = socket.data.roomId;
+    const update = sanitizeStateUpdate(state);
+    if (!to || !update) return;
+    if (!isInRoom(to, room)) return;
+    const now = Date.now();
+    // Peers only answer while the server has no clock for the room yet, so
+    // the first reply seeds it and any later ones read from the same source.
+    const roomData = getRoom(room);
+    roomData.playback ??= applyStateUpdate(null, update, now);
+    io.to(to).emit("state", { state: snapshotState(roomData.playback, now, update.reason), at: now });
   });
 
-  socket.on("chat", (message) => {
-    if (!message || !message.text) return;
-    socket.broadcast.emit("chat", message);
+  socket.on("chat", async (message) => {
+    const room = socket.data.roomId;
+    if (!room || !message || typeof message.text !== "string") return;
+    const text = message.text.trim().slice(0, MAX_CHAT_LENGTH);
+    if (!text) return;
+    const stored = await chatStore.append(room, {
+      id: normalizeMessageId(message.id) ?? crypto.randomUUID(),
+      text,
+      sender: socket.data.userId,
+      senderName: socket.data.name,
+      at: Date.now(),
+      ...(Number.isFinite(message.videoTime) && message.videoTime >= 0
+        ? { videoTime: message.videoTime }
+        : {}),
+      ...(typeof message.video === "string" && message.video ? { video: message.video.slice(0, 512) } : {}),
+    });
+    io.to(room).emit("chat", stored);
   });
 
-  socket.on("chat-reaction", (payload) => {
-    if (!payload || !payload.id || !payload.emoji || !payload.sender || !payload.action) return;
-    socket.broadcast.emit("chat-reaction", payload);
+  socket.on("chat-reaction", async (payload) => {
+    const room = socket.data.roomId;
+    if (!room || !payload) return;
+    const id = normalizeMessageId(payload.id);
+    const emoji = typeof payload.emoji === "string" ? payload.emoji.slice(0, 16) : "";
+    if (!id || !emoji || (payload.action !== "add" && payload.action !== "remove")) return;
+    const updated = await chatStore.react(room, {
+      id,
+      emoji,
+      userId: socket.data.userId,
+      action: payload.action,
+    });
+    if (!updated) return;
+    io.to(room).emit("chat-reaction", {
+      id,
+      reactions: updated.reactions,
+      reactionUsers: updated.reactionUsers,
+    });
   });
 
-  socket.on("call-offer", ({ offer }) => {
-    if (!offer) return;
-    socket.broadcast.emit("call-offer", { offer });
+  socket.on("call-join", (payload, ack) => {
+    const room = socket.data.roomId;
+    if (!room) return;
+    const roomData = getRoom(room);
+    if (!roomData.call.has(socket.id) && roomData.call.size >= MAX_CALL_PARTICIPANTS) {
+      if (typeof ack === "function") ack({ ok: false, error: "The call is full." });
+      return;
+    }
+    const peers = Array.from(roomData.call.keys())
+      .filter((peerId) => peerId !== socket.id)
+      .map((peerId) => describeCallPeer(roomData, peerId));
+    roomData.call.set(socket.id, normalizeCallMedia(payload));
+    for (const peer of peers) {
+      io.to(peer.peerId).emit("call-peer-joined", describeCallPeer(roomData, socket.id));
+    }
+    if (typeof ack === "function") ack({ ok: true, peers });
   });
 
-  socket.on("call-answer", ({ answer }) => {
-    if (!answer) return;
-    socket.broadcast.emit("call-answer", { answer });
+  socket.on("call-media", (payload) => {
+    const room = socket.data.roomId;
+    const roomData = room ? rooms.get(room) : null;
+    if (!roomData?.call.has(socket.id)) return;
+    const media = normalizeCallMedia(payload);
+    roomData.call.set(socket.id, media);
+    for (const peerId of roomData.call.keys()) {
+      if (peerId === socket.id) continue;
+      io.to(peerId).emit("call-media", { peerId: socket.id, ...media });
+    }
   });
 
-  socket.on("call-ice", ({ candidate }) => {
-    if (!candidate) return;
-    socket.broadcast.emit("call-ice", { candidate });
+  socket.on("call-offer", ({ to, offer } = {}) => {
+    if (!offer || !isCallPeer(socket, to)) return;
+    io.to(to).emit("call-offer", { from: socket.id, offer });
   });
 
-  socket.on("call-end", () => {
-    socket.broadcast.emit("call-end");
+  socket.on("call-answer", ({ to, answer } = {}) => {
+    if (!answer || !isCallPeer(socket, to)) return;
+    io.to(to).emit("call-answer", { from: socket.id, answer });
+  });
+
+  socket.on("call-ice", ({ to, candidate } = {}) => {
+    if (!candidate || !isCallPeer(socket, to)) return;
+    io.to(to).emit("call-ice", { from: socket.id, candidate });
+  });
+
+  socket.on("call-leave", () => {
+    const room = socket.data.roomId;
+    if (!room) return;
+    leaveCall(room, socket.id);
+  });
+
+  socket.on("share-start", (_payload, ack) => {
+    const room = socket.data.roomId;
+    if (!room || typeof ack !== "function") return;
+    const roomData = getRoom(room);
+    if (roomData.locked && socket.data.role !== "host") {
+      ack({ ok: false, error: "Playback controls are locked by the host." });
+      return;
+    }
+    if (roomData.presenter && roomData.presenter.peerId !== socket.id) {
+      ack({ ok: false, error: `${roomData.presenter.name ?? "Someone"} is already sharing.` });
+      return;
+    }
+    roomData.presenter = { peerId: socket.id, userId: socket.data.userId, name: socket.data.name };
+    io.to(room).emit("presenter", { presenter: roomData.presenter });
+    const viewers = Array.from(io.sockets.adapter.rooms.get(room) ?? []).filter((peerId) => peerId !== socket.id);
+    ack({ ok: true, viewers });
+  });
+
+  socket.on("share-stop", () => {
+    const room = socket.data.roomId;
+    if (!room || rooms.get(room)?.presenter?.peerId !== socket.id) return;
+    leaveShare(room, socket.id);
+  });
+
+  socket.on("share-offer", ({ to, offer } = {}) => {
+    if (!offer || !isShareLink(socket, to)) return;
+    io.to(to).emit("share-offer", { from: socket.id, offer });
+  });
+
+  socket.on("share-answer", ({ to, answer } = {}) => {
+    if (!answer || !isShareLink(socket, to)) return;
+    io.to(to).emit("share-answer", { from: socket.id, answer });
+  });
+
+  socket.on("share-ice", ({ to, candidate } = {}) => {
+    if (!candidate || !isShareLink(socket, to)) return;
+    io.to(to).emit("share-ice", { from: socket.id, candidate });
   });
 
   socket.on("player-reaction", (payload, ack) => {
-    if (!payload || !payload.emoji) return;
-    io.emit("player-reaction", payload);
+    const room = socket.data.roomId;
+    if (!room || !payload || !payload.emoji) return;
+    io.to(room).emit("player-reaction", payload);
     if (typeof ack === "function") {
       ack({ ok: true });
     }
   });
 
   socket.on("disconnect", () => {
-    io.emit("room-info", { count: io.engine.clientsCount });
+    if (socket.data.progressToken) progressTokens.delete(socket.data.progressToken);
+    const room = socket.data.roomId;
+    if (!room) return;
+    const roomData = rooms.get(room);
+    if (roomData) {
+      markReady(room, roomData, socket.id);
+      leaveCall(room, socket.id);
+      leaveShare(room, socket.id);
+    }
+    emitRoomInfo(room);
+    if (roomSize(room) === 0) {
+      scheduleRoomExpiry(room);
+    }
   });
 });
 
@@ -207,20 +670,294 @@ server.listen(PORT, () => {
   console.log(`Sync player running on http://localhost:${PORT}`);
 });
 
-function isVideoFile(name) {
-  const ext = path.extname(name).toLowerCase();
-  return [".mp4", ".mov", ".webm", ".mkv", ".m4v"].includes(ext);
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.once(signal, () => {
+    Promise.all([chatStore.flush(), progressStore.flush()])
+      .catch((err) => console.error("Failed to flush stored data:", err))
+      .finally(() => process.exit(0));
+  });
 }
 
-function encodeHlsId(name) {
-  return Buffer.from(name).toString("base64url");
+function createInviteToken(roomId, now = Date.now()) {
+  return createRoomToken({ roomId, role: "guest", expiresAt: now + INVITE_TTL_MS }, ROOM_SECRET);
 }
 
-async function fileExists(filePath) {
+function loadRoomSecret() {
+  if (process.env.ROOM_SECRET) return process.env.ROOM_SECRET;
+  // Keep a generated secret on disk so invite links survive restarts.
+  const secretPath = path.join(DATA_DIR, "room-secret");
   try {
-    await fs.promises.access(filePath, fs.constants.F_OK);
-    return true;
+    return fs.readFileSync(secretPath, "utf8").trim();
   } catch {
+    const secret = crypto.randomBytes(32).toString("hex");
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+    return secret;
+  }
+}
+
+function normalizeRoomId(value) {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return ROOM_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function normalizeUserId(value) {
+  if (typeof value !== "string") return null;
+  return USER_ID_PATTERN.test(value) ? value : null;
+}
+
+function normalizeMessageId(value) {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= 128 ? trimmed : null;
+}
+
+function normalizeVideoName(value) {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= 512 ? trimmed : null;
+}
+
+// Peers number tracks differently, so a track is identified by its name and language.
+function normalizeSubtitleTrack(value) {
+  if (!value || typeof value !== "object" || typeof value.name !== "string") return null;
+  const name = value.name.trim().slice(0, 128);
+  if (!name) return null;
+  const language =
+    typeof value.language === "string" && /^[A-Za-z0-9-]{1,35}$/.test(value.language) ? value.language : null;
+  return { name, language };
+}
+
+function normalizeDisplayName(value) {
+  if (typeof value !== "string") return null;
+  const trimmed = value.replace(/\s+/g, " ").trim().slice(0, MAX_DISPLAY_NAME_LENGTH);
+  return trimmed || null;
+}
+
+function roomSize(room) {
+  return io.sockets.adapter.rooms.get(room)?.size ?? 0;
+}
+
+function isInRoom(socketId, room) {
+  if (!room) return false;
+  return io.sockets.adapter.rooms.get(room)?.has(socketId) ?? false;
+}
+
+function getRoom(room) {
+  let roomData = rooms.get(room);
+  if (!roomData) {
+    roomData = {
+      playback: null,
+      waitForAll: false,
+      syncSubtitles: false,
+      // { track: { name, language } | null } once someone picks while syncing; null track means off.
+      subtitleChoice: null,
+      buffering: new Set(),
+      resumeAfterBuffering: false,
+      queue: [],
+      // { video, endsAt, timer } while counting down to the next episode.
+      autoplay: null,
+      locked: false,
+      call: new Map(),
+      presenter: null,
+    };
+    rooms.set(room, roomData);
+  }
+  return roomData;
+}
+
+/** Tells a guest its change was refused while the host has locked the room. */
+function rejectWhenLocked(socket, roomData) {
+  if (!roomData.locked || socket.data.role === "host") return false;
+  socket.emit("state-rejected", { reason: "locked" });
+  return true;
+}
+
+function roomSettings(roomData) {
+  return { waitForAll: roomData.waitForAll, syncSubtitles: roomData.syncSubtitles };
+}
+
+function markBuffering(room, roomData, socketId) {
+  roomData.buffering.add(socketId);
+  if (roomData.playback && !roomData.playback.paused) {
+    roomData.resumeAfterBuffering = true;
+    broadcastPlayback(room, roomData, { paused: true, reason: "buffering" });
+  }
+  io.to(room).emit("buffering-status", { waitingFor: bufferingUsers(roomData) });
+}
+
+function markReady(room, roomData, socketId) {
+  if (!roomData.buffering.delete(socketId)) return;
+  io.to(room).emit("buffering-status", { waitingFor: bufferingUsers(roomData) });
+  if (roomData.buffering.size > 0 || !roomData.resumeAfterBuffering) return;
+  roomData.resumeAfterBuffering = false;
+  broadcastPlayback(room, roomData, { paused: false, reason: "buffered" });
+}
+
+function clearBuffering(room, roomData) {
+  const waiting = Array.from(roomData.buffering);
+  roomData.buffering.clear();
+  if (!waiting.length) return;
+  io.to(room).emit("buffering-status", { waitingFor: [] });
+  if (!roomData.resumeAfterBuffering) return;
+  roomData.resumeAfterBuffering = false;
+  broadcastPlayback(room, roomData, { paused: false, reason: "buffered" });
+}
+
+function broadcastPlayback(room, roomData, update) {
+  const now = Date.now();
+  roomData.playback = applyStateUpdate(roomData.playback, update, now);
+  io.to(room).emit("state", {
+    state: snapshotState(roomData.playback, now, update.reason),
+    at: now,
+    origin: "server",
+  });
+}
+
+function startAutoplay(room, roomData, video) {
+  const endsAt = Date.now() + NEXT_EPISODE_COUNTDOWN_MS;
+  const timer = setTimeout(() => {
+    roomData.autoplay = null;
+    io.to(room).emit("autoplay", { autoplay: null });
+    broadcastPlayback(room, roomData, { video, time: 0, paused: false, reason: "next-episode" });
+  }, NEXT_EPISODE_COUNTDOWN_MS);
+  timer.unref();
+  roomData.autoplay = { video, endsAt, timer };
+  io.to(room).emit("autoplay", { autoplay: describeAutoplay(roomData) });
+}
+
+function cancelAutoplay(room, roomData, cancelledBy = null) {
+  if (!roomData.autoplay) return;
+  clearTimeout(roomData.autoplay.timer);
+  roomData.autoplay = null;
+  io.to(room).emit("autoplay", { autoplay: null, cancelledBy });
+}
+
+function describeAutoplay(roomData) {
+  return { video: roomData.autoplay.video, endsAt: roomData.autoplay.endsAt };
+}
+
+function describeCallPeer(roomData, socketId) {
+  const member = io.sockets.sockets.get(socketId);
+  return {
+    peerId: socketId,
+    userId: member?.data.userId ?? null,
+    name: member?.data.name ?? null,
+    ...(roomData.call.get(socketId) ?? normalizeCallMedia()),
+  };
+}
+
+function normalizeCallMedia(payload) {
+  return { audio: payload?.audio !== false, video: payload?.video !== false };
+}
+
+function isCallPeer(socket, peerId) {
+  const room = socket.data.roomId;
+  if (!room || typeof peerId !== "string" || peerId === socket.id) return false;
+  const call = rooms.get(room)?.call;
+  return Boolean(call?.has(socket.id) && call.has(peerId));
+}
+
+function leaveCall(room, socketId) {
+  const roomData = rooms.get(room);
+  if (!roomData?.call.delete(socketId)) return;
+  for (const peerId of roomData.call.keys()) {
+    io.to(peerId).emit("call-peer-left", { peerId: socketId });
+  }
+}
+
+function isShareLink(socket, peerId) {
+  const room = socket.data.roomId;
+  if (!room || typeof peerId !== "string" || peerId === socket.id || !isInRoom(peerId, room)) return false;
+  const presenterId = rooms.get(room)?.presenter?.peerId;
+  return presenterId === socket.id || presenterId === peerId;
+}
+
+function leaveShare(room, socketId) {
+  const roomData = rooms.get(room);
+  const presenter = roomData?.presenter;
+  if (!presenter) return;
+  if (presenter.peerId === socketId) {
+    roomData.presenter = null;
+    io.to(room).emit("presenter", { presenter: null });
+    return;
+  }
+  io.to(presenter.peerId).emit("share-viewer-left", { peerId: socketId });
+}
+
+function emitQueue(room, roomData) {
+  io.to(room).emit("queue", { items: roomData.queue });
+}
+
+function bearerGrant(req) {
+  const [scheme, token] = (req.get("authorization") ?? "").split(" ");
+  return scheme === "Bearer" ? verifyRoomToken(token, ROOM_SECRET) : null;
+}
+
+/**
+ * Progress belongs to whoever holds the secret their socket was given on
+ * joining a room. User ids are shared with the whole room, so `userId` has
+ * to match the socket the secret was issued to.
+ */
+function authorizeProgress(req, res, userId) {
+  const [scheme, token] = (req.get("authorization") ?? "").split(" ");
+  const socketId = scheme === "Bearer" ? progressTokens.get(token) : undefined;
+  const owner = socketId ? io.sockets.sockets.get(socketId) : undefined;
+  if (!owner) {
+    res.status(401).json({ error: "Join a room before reading or saving progress." });
     return false;
   }
+  if (owner.data.userId !== userId) {
+    res.status(403).json({ error: "Progress can only be read and saved by its own user." });
+    return false;
+  }
+  return true;
+}
+
+function roomRoster(room) {
+  const members = new Map();
+  for (const socketId of io.sockets.adapter.rooms.get(room) ?? []) {
+    const member = io.sockets.sockets.get(socketId);
+    if (!member?.data.userId) continue;
+    const existing = members.get(member.data.userId);
+    members.set(member.data.userId, {
+      userId: member.data.userId,
+      name: member.data.name,
+      role: existing?.role === "host" ? "host" : member.data.role,
+      connections: (existing?.connections ?? 0) + 1,
+    });
+  }
+  return Array.from(members.values());
+}
+
+function bufferingUsers(roomData) {
+  const userIds = new Set();
+  for (const socketId of roomData.buffering) {
+    const member = io.sockets.sockets.get(socketId);
+    userIds.add(member?.data.userId ?? socketId);
+  }
+  return Array.from(userIds);
+}
+
+function emitRoomInfo(room) {
+  io.to(room).emit("room-info", { roomId: room, members: roomRoster(room) });
+}
+
+function scheduleRoomExpiry(room) {
+  cancelRoomExpiry(room);
+  const timer = setTimeout(() => {
+    emptyRoomTimers.delete(room);
+    if (roomSize(room) > 0) return;
+    rooms.delete(room);
+  }, EMPTY_ROOM_TTL_MS);
+  timer.unref();
+  emptyRoomTimers.set(room, timer);
+}
+
+function cancelRoomExpiry(room) {
+  const timer = emptyRoomTimers.get(room);
+  if (!timer) return;
+  clearTimeout(timer);
+  emptyRoomTimers.delete(room);
 }
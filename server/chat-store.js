@@ -0,0 +1,94 @@
+import path from "path";
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+
+const WRITE_DELAY_MS = 250;
+
+export function createChatStore({ dir, limit = 200 }) {
+  const cache = new Map();
+  const pendingWrites = new Map();
+
+  async function load(room) {
+    if (cache.has(room)) return cache.get(room);
+    const parsed = await readJsonFile(fileFor(room), []);
+    const messages = Array.isArray(parsed) ? parsed.slice(-limit) : [];
+    // Another caller may have loaded the room while this one was reading.
+    if (cache.has(room)) return cache.get(room);
+    cache.set(room, messages);
+    return messages;
+  }
+
+  function fileFor(room) {
+    return path.join(dir, `${room}.json`);
+  }
+
+  function scheduleWrite(room) {
+    if (pendingWrites.has(room)) return;
+    const timer = setTimeout(() => {
+      pendingWrites.delete(room);
+      persist(room).catch((err) => {
+        console.error(`Failed to persist chat for room ${room}:`, err);
+      });
+    }, WRITE_DELAY_MS);
+    pendingWrites.set(room, timer);
+  }
+
+  async function persist(room) {
+    const messages = cache.get(room);
+    if (!messages) return;
+    await writeJsonFile(fileFor(room), messages);
+  }
+
+  return {
+    async history(room) {
+      const messages = await load(room);
+      return messages.map(toPublicMessage);
+    },
+
+    async append(room, message) {
+      const messages = await load(room);
+      const stored = { ...message, reactionUsers: {} };
+      messages.push(stored);
+      if (messages.length > limit) {
+        messages.splice(0, messages.length - limit);
+      }
+      scheduleWrite(room);
+      return toPublicMessage(stored);
+    },
+
+    async react(room, { id, emoji, userId, action }) {
+      const messages = await load(room);
+      const message = messages.find((entry) => entry.id === id);
+      if (!message) return null;
+      const users = new Set(message.reactionUsers[emoji] ?? []);
+      if (action === "add") {
+        users.add(userId);
+      } else {
+        users.delete(userId);
+      }
+      if (users.size) {
+        message.reactionUsers[emoji] = Array.from(users);
+      } else {
+        delete message.reactionUsers[emoji];
+      }
+      scheduleWrite(room);
+      return toPublicMessage(message);
+    },
+
+    async flush() {
+      const rooms = Array.from(pendingWrites.keys());
+      for (const room of rooms) {
+        clearTimeout(pendingWrites.get(room));
+        pendingWrites.delete(room);
+      }
+      await Promise.all(rooms.map((room) => persist(room)));
+    },
+  };
+}
+
+function toPublicMessage(message) {
+  const reactionUsers = message.reactionUsers ?? {};
+  const reactions = Object.fromEntries(
+    Object.entries(reactionUsers).map(([emoji, users]) => [emoji, users.length])
+  );
+  return { ...message, reactions, reactionUsers };
+}
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+
+const INTRO_FILE_NAME = "intro.json";
+
+const EPISODE_PATTERNS = [
+  // Show.Name.S01E02.Title, including multi-episode files like S01E02E03
+  /^(.*?)\bS(\d{1,2})[\s._-]?E(\d{1,3})(?:[\s._-]?E\d{1,3})*(.*)$/i,
+  // Show Name - 1x02 - Title
+  /^(.*?)\b(\d{1,2})x(\d{2,3})\b(.*)$/i,
+];
+// Release tags that end the episode title, e.g. "Pilot.1080p.WEB-DL".
+const RELEASE_TAG = /\b(?:\d{3,4}p|web(?:-?dl|rip)?|blu-?ray|hdtv|x26[45]|h\.?26[45]|hevc)\b/i;
+const SEASON_FOLDER = /^(?:season|series|s)[\s._-]*\d+$/i;
+
+const introCache = new Map();
+
+/**
+ * Reads show, season and episode from a video name such as
+ * `Shows/The Office/The.Office.S02E01.The.Dundies.mkv`. The show falls back
+ * to the enclosing folder (skipping `Season 2` style folders) when the file
+ * name starts with the episode number. Returns null for anything else.
+ */
+export function parseEpisode(name) {
+  const segments = name.split("/");
+  const stem = path.posix.basename(name, path.posix.extname(name));
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = pattern.exec(stem);
+    if (!match) continue;
+    const [, showText, seasonText, episodeText, rest] = match;
+    const folder = segments
+      .slice(0, -1)
+      .reverse()
+      .find((segment) => !SEASON_FOLDER.test(segment));
+    const show = cleanText(showText) || (folder ? cleanText(folder) : "");
+    if (!show) return null;
+    const title = cleanText(rest.split(RELEASE_TAG)[0]);
+    return { show, season: Number(seasonText), episode: Number(episodeText), title: title || null };
+  }
+  return null;
+}
+
+function cleanText(value) {
+  return value
+    .replace(/[._]+/g, " ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s-]+|[\s-]+$/g, "");
+}
+
+/**
+ * Finds the intro of an episode from a sidecar in its folder or the nearest
+ * folder above it: `<show>.intro.json`, or `intro.json` when the folder holds
+ * a single show. The file holds `{ "start": 30, "end": 95 }` in seconds, with
+ * optional per-season overrides under `"seasons": { "2": { ... } }`.
+ */
+export async function readEpisodeIntro(videosDir, name, episode) {
+  const segments = name.split("/").slice(0, -1);
+  for (let depth = segments.length; depth >= 0; depth -= 1) {
+    const dir = path.join(videosDir, ...segments.slice(0, depth));
+    for (const fileName of [`${episode.show}.intro.json`, INTRO_FILE_NAME]) {
+      const sidecar = await readIntroSidecar(path.join(dir, fileName));
+      if (sidecar) return normalizeIntro(sidecar.seasons?.[String(episode.season)]) ?? normalizeIntro(sidecar);
+    }
+  }
+  return null;
+}
+
+async function readIntroSidecar(sidecarPath) {
+  let mtimeMs;
+  try {
+    ({ mtimeMs } = await fs.promises.stat(sidecarPath));
+  } catch {
+    return null;
+  }
+  const cached = introCache.get(sidecarPath);
+  if (cached?.mtimeMs === mtimeMs) return cached.sidecar;
+
+  let sidecar = null;
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(sidecarPath, "utf8"));
+    if (parsed && typeof parsed === "object") sidecar = parsed;
+  } catch {
+    // treated like a missing sidecar
+  }
+  introCache.set(sidecarPath, { mtimeMs, sidecar });
+  return sidecar;
+}
+
+function normalizeIntro(value) {
+  if (!value || typeof value !== "object") return null;
+  const { start, end } = value;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) return null;
+  return { start, end };
+}
@@ -0,0 +1,10 @@
+import fs from "fs";
+
+export async function fileExists(filePath) {
+  try {
+    await fs.promises.access(filePath, fs.constants.F_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+import { MASTER_PLAYLIST_NAME, measurePlaylist } from "../transcoder/index.js";
+import { fileExists } from "./fs-utils.js";
+
+const LEGACY_SUBTITLE_PLAYLIST = "index_vtt.m3u8";
+const legacyBandwidthCache = new Map();
+
+/**
+ * Builds the master playlist served for an HLS directory with absolute URIs.
+ * Ladder output already has a master `index.m3u8` listing its variants and
+ * subtitle renditions, which is passed through. Older single-rendition
+ * output only has a media playlist, so its bandwidth is measured from the
+ * segment files and its lone `index_vtt.m3u8` is listed as English.
+ */
+export async function buildMasterPlaylist({ dir, baseUrl }) {
+  const indexPath = path.join(dir, MASTER_PLAYLIST_NAME);
+  const index = await fs.promises.readFile(indexPath, "utf8");
+  if (index.includes("#EXT-X-STREAM-INF")) {
+    return absolutizeMaster(index, baseUrl);
+  }
+
+  const hasSubtitles = await fileExists(path.join(dir, LEGACY_SUBTITLE_PLAYLIST));
+  return [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    "#EXT-X-INDEPENDENT-SEGMENTS",
+    ...(hasSubtitles
+      ? [
+          `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",DEFAULT=YES,AUTOSELECT=YES,LANGUAGE="en",URI="${baseUrl}/${LEGACY_SUBTITLE_PLAYLIST}"`,
+        ]
+      : []),
+    `#EXT-X-STREAM-INF:${await measureLegacyPlaylist(indexPath)}${hasSubtitles ? ',SUBTITLES="subs"' : ""}`,
+    `${baseUrl}/${MASTER_PLAYLIST_NAME}`,
+    "",
+  ].join("\n");
+}
+
+/** Whether an HLS directory has any subtitle renditions, in either layout. */
+export async function hasSubtitleRenditions(dir) {
+  try {
+    const index = await fs.promises.readFile(path.join(dir, MASTER_PLAYLIST_NAME), "utf8");
+    if (index.includes("TYPE=SUBTITLES")) return true;
+  } catch {
+    return false;
+  }
+  return fileExists(path.join(dir, LEGACY_SUBTITLE_PLAYLIST));
+}
+
+function absolutizeMaster(master, baseUrl) {
+  return master
+    .split(/\r?\n/)
+    .map((line) => {
+      if (line.startsWith("#EXT-X-MEDIA:")) {
+        return line.replace(/URI="([^"]+)"/, (_match, uri) => `URI="${baseUrl}/${uri}"`);
+      }
+      return line && !line.startsWith("#") ? `${baseUrl}/${line.trim()}` : line;
+    })
+    .join("\n");
+}
+
+async function measureLegacyPlaylist(playlistPath) {
+  const { mtimeMs } = await fs.promises.stat(playlistPath);
+  const cached = legacyBandwidthCache.get(playlistPath);
+  if (cached?.mtimeMs === mtimeMs) return cached.attributes;
+
+  const { peak, average } = await measurePlaylist(playlistPath);
+  // The old encoder settings, for directories whose segments are elsewhere.
+  const attributes = peak > 0 ? `BANDWIDTH=${peak},AVERAGE-BANDWIDTH=${average}` : "BANDWIDTH=3628000";
+  legacyBandwidthCache.set(playlistPath, { mtimeMs, attributes });
+  return attributes;
+}
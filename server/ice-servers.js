@@ -0,0 +1,57 @@
+import crypto from "crypto";
+
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302"];
+
+/**
+ * Reads ICE configuration from the environment. TURN can use either a
+ * static username/credential pair or a shared secret (coturn's
+ * `static-auth-secret`), in which case credentials are minted per request.
+ */
+export function loadIceConfig(env = process.env) {
+  const stunUrls = env.STUN_URLS !== undefined ? splitUrls(env.STUN_URLS) : DEFAULT_STUN_URLS;
+  return {
+    stunUrls,
+    turnUrls: splitUrls(env.TURN_URLS),
+    turnSecret: env.TURN_SECRET || null,
+    turnUsername: env.TURN_USERNAME || null,
+    turnCredential: env.TURN_CREDENTIAL || null,
+    turnTtlSeconds: Number.parseInt(env.TURN_TTL_SECONDS ?? "", 10) || 6 * 60 * 60,
+  };
+}
+
+/**
+ * Builds the RTCIceServer list handed to clients. With a TURN secret the
+ * username is `<expiry>:<label>` and the credential is
+ * base64(HMAC-SHA1(secret, username)), as in the coturn REST API.
+ */
+export function iceServersFor(config, label, now = Date.now()) {
+  const iceServers = [];
+  if (config.stunUrls.length > 0) {
+    iceServers.push({ urls: config.stunUrls });
+  }
+
+  if (config.turnUrls.length > 0) {
+    if (config.turnSecret) {
+      const expiry = Math.floor(now / 1000) + config.turnTtlSeconds;
+      const username = `${expiry}:${label}`;
+      const credential = crypto.createHmac("sha1", config.turnSecret).update(username).digest("base64");
+      iceServers.push({ urls: config.turnUrls, username, credential });
+    } else if (config.turnUsername && config.turnCredential) {
+      iceServers.push({
+        urls: config.turnUrls,
+        username: config.turnUsername,
+        credential: config.turnCredential,
+      });
+    }
+  }
+
+  return { iceServers, ttl: config.turnTtlSeconds };
+}
+
+function splitUrls(value) {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,19 @@
+import fs from "fs";
+import path from "path";
+
+export async function readJsonFile(filePath, fallback) {
+  try {
+    const raw = await fs.promises.readFile(filePath, "utf8");
+    return JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+}
+
+/** Writes through a temp file and rename so a crash never leaves half a JSON document. */
+export async function writeJsonFile(filePath, value) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(value));
+  await fs.promises.rename(temp, filePath);
+}
@@ -0,0 +1,45 @@
+import path from "path";
+import { MASTER_PLAYLIST_NAME, THUMBNAIL_TRACK_NAME, encodeHlsId } from "../transcoder/index.js";
+import { fileExists } from "./fs-utils.js";
+import { hasSubtitleRenditions } from "./hls-master.js";
+import { readVideoMetadata } from "./video-metadata.js";
+import { scanLibrary } from "./video-library.js";
+
+/**
+ * The on-disk backend: sources in `videosDir` and their HLS output in
+ * `hlsDir/<id>`, served by the static `/hls` route. Sources that haven't
+ * been transcoded yet are listed too, with `hls: false`.
+ */
+export function createLocalStorage({ videosDir, hlsDir }) {
+  async function listVideos() {
+    const library = await scanLibrary(videosDir);
+    return Promise.all(
+      library.map(async ({ name, sizeBytes, addedAt }) => {
+        const hlsId = encodeHlsId(name);
+        const dir = path.join(hlsDir, hlsId);
+        const hlsReady = await fileExists(path.join(dir, MASTER_PLAYLIST_NAME));
+        const hlsSubtitles = hlsReady && (await hasSubtitleRenditions(dir));
+        const hasThumbnails = hlsReady && (await fileExists(path.join(dir, THUMBNAIL_TRACK_NAME)));
+        const metadata = hlsReady ? await readVideoMetadata(dir) : null;
+        return {
+          name,
+          hls: hlsReady,
+          hlsPath: hlsReady ? `/hls/${hlsId}/${MASTER_PLAYLIST_NAME}` : null,
+          hlsMasterPath: hlsReady
+            ? hlsSubtitles
+              ? `/api/hls/${hlsId}/master.m3u8`
+              : `/hls/${hlsId}/${MASTER_PLAYLIST_NAME}`
+            : null,
+          hlsSubtitles,
+          thumbnailsPath: hasThumbnails ? `/hls/${hlsId}/${THUMBNAIL_TRACK_NAME}` : null,
+          sizeBytes,
+          addedAt,
+          metadata,
+          posterPath: metadata?.poster ? `/hls/${hlsId}/${metadata.poster}` : null,
+        };
+      })
+    );
+  }
+
+  return { name: "local", listVideos };
+}
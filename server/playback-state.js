@@ -0,0 +1,57 @@
+const MAX_PLAYBACK_RATE = 16;
+
+export function createPlaybackState(now = Date.now()) {
+  return {
+    video: "",
+    paused: true,
+    time: 0,
+    playbackRate: 1,
+    lastUpdatedAt: now,
+  };
+}
+
+export function sanitizeStateUpdate(input) {
+  if (!input || typeof input !== "object") return null;
+  const update = {};
+  if (typeof input.video === "string") update.video = input.video;
+  if (typeof input.paused === "boolean") update.paused = input.paused;
+  if (Number.isFinite(input.time) && input.time >= 0) update.time = input.time;
+  if (
+    Number.isFinite(input.playbackRate) &&
+    input.playbackRate > 0 &&
+    input.playbackRate <= MAX_PLAYBACK_RATE
+  ) {
+    update.playbackRate = input.playbackRate;
+  }
+  if (typeof input.reason === "string") update.reason = input.reason.slice(0, 32);
+  return update;
+}
+
+export function applyStateUpdate(current, update, now = Date.now()) {
+  const base = current ?? createPlaybackState(now);
+  const videoChanged = update.video !== undefined && update.video !== base.video;
+  return {
+    video: update.video ?? base.video,
+    paused: update.paused ?? base.paused,
+    time: update.time ?? (videoChanged ? 0 : positionAt(base, now)),
+    playbackRate: update.playbackRate ?? base.playbackRate,
+    lastUpdatedAt: now,
+  };
+}
+
+export function positionAt(state, now = Date.now()) {
+  if (state.paused) return state.time;
+  const elapsed = Math.max(0, now - state.lastUpdatedAt) / 1000;
+  return state.time + elapsed * state.playbackRate;
+}
+
+export function snapshotState(state, now = Date.now(), reason) {
+  return {
+    video: state.video,
+    paused: state.paused,
+    time: positionAt(state, now),
+    playbackRate: state.playbackRate,
+    lastUpdatedAt: state.lastUpdatedAt,
+    ...(reason ? { reason } : {}),
+  };
+}
@@ -0,0 +1,80 @@
+import { readJsonFile, writeJsonFile } from "./json-file.js";
+
+const WRITE_DELAY_MS = 1000;
+const FINISHED_RATIO = 0.95;
+const FINISHED_REMAINING_SECONDS = 30;
+// Shorter videos only count as finished by ratio, or a clip would be done at 0s.
+const MIN_REMAINING_RULE_SECONDS = 120;
+// Oldest entries are dropped past this, so one user can't grow the file without bound.
+const MAX_ENTRIES_PER_USER = 500;
+
+export function createProgressStore({ file }) {
+  let data = null;
+  let loading = null;
+  let writeTimer = null;
+
+  async function load() {
+    if (data) return data;
+    loading ??= readJsonFile(file, {}).then((parsed) => {
+      data = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+      return data;
+    });
+    return loading;
+  }
+
+  function scheduleWrite() {
+    if (writeTimer) return;
+    writeTimer = setTimeout(() => {
+      writeTimer = null;
+      writeJsonFile(file, data).catch((err) => {
+        console.error("Failed to persist progress:", err);
+      });
+    }, WRITE_DELAY_MS);
+  }
+
+  return {
+    async forUser(userId) {
+      const all = await load();
+      return all[userId] ?? {};
+    },
+
+    async record(userId, { video, time, duration, finished }) {
+      const all = await load();
+      const entries = (all[userId] ??= {});
+      const previous = entries[video];
+      const reachedEnd =
+        duration > 0 &&
+        time > 0 &&
+        (time / duration >= FINISHED_RATIO ||
+          (duration >= MIN_REMAINING_RULE_SECONDS && duration - time <= FINISHED_REMAINING_SECONDS));
+      const entry = {
+        time,
+        duration: duration || previous?.duration || 0,
+        finished: Boolean(finished || reachedEnd),
+        // Rewatching clears `finished` until the end is reached again, but keeps when it was last finished.
+        finishedAt: finished || reachedEnd ? Date.now() : previous?.finishedAt ?? null,
+        updatedAt: Date.now(),
+      };
+      entries[video] = entry;
+      if (!previous) trimEntries(entries);
+      scheduleWrite();
+      return entry;
+    },
+
+    async flush() {
+      if (!writeTimer) return;
+      clearTimeout(writeTimer);
+      writeTimer = null;
+      await writeJsonFile(file, data);
+    },
+  };
+}
+
+function trimEntries(entries) {
+  const videos = Object.keys(entries);
+  if (videos.length <= MAX_ENTRIES_PER_USER) return;
+  videos
+    .sort((a, b) => (entries[a].updatedAt ?? 0) - (entries[b].updatedAt ?? 0))
+    .slice(0, videos.length - MAX_ENTRIES_PER_USER)
+    .forEach((video) => delete entries[video]);
+}
@@ -0,0 +1,38 @@
+import crypto from "crypto";
+
+/**
+ * Room tokens are `<payload>.<signature>`, both base64url. The payload is
+ * `{ roomId, role, exp }` and the signature an HMAC-SHA256 over it, so the
+ * server can check an invite without storing it.
+ */
+export function createRoomToken({ roomId, role, expiresAt }, secret) {
+  const payload = Buffer.from(JSON.stringify({ roomId, role, exp: expiresAt })).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifyRoomToken(token, secret, now = Date.now()) {
+  if (typeof token !== "string") return null;
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (!claims || typeof claims.roomId !== "string") return null;
+  if (claims.role !== "host" && claims.role !== "guest") return null;
+  if (!Number.isFinite(claims.exp) || claims.exp <= now) return null;
+  return { roomId: claims.roomId, role: claims.role, expiresAt: claims.exp };
+}
+
+function sign(payload, secret) {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
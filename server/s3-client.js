@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * A minimal S3-compatible client (R2, MinIO, AWS) that only reads. Every
+ * request goes through a SigV4 presigned URL with path-style addressing, so
+ * the same code signs the URLs handed to browsers and the server's own
+ * fetches.
+ */
+export function createS3Client({ endpoint, bucket, accessKeyId, secretAccessKey, region = "auto" }) {
+  const base = new URL(endpoint);
+
+  function presign(key, { expiresIn = 3600, query = {} } = {}) {
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+    const pathname = `${base.pathname.replace(/\/$/, "")}/${encodeRfc3986(bucket)}${
+      key ? `/${key.split("/").map(encodeRfc3986).join("/")}` : ""
+    }`;
+    const params = {
+      ...query,
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(Math.min(Math.max(1, Math.floor(expiresIn)), MAX_PRESIGN_SECONDS)),
+      "X-Amz-SignedHeaders": "host",
+    };
+    const canonicalQuery = Object.keys(params)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+      .join("&");
+    const canonicalRequest = ["GET", pathname, canonicalQuery, `host:${base.host}\n`, "host", UNSIGNED_PAYLOAD].join(
+      "\n"
+    );
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = [amzDate.slice(0, 8), region, "s3", "aws4_request"].reduce(
+      (keyMaterial, part) => hmac(keyMaterial, part),
+      `AWS4${secretAccessKey}`
+    );
+    const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+    return `${base.origin}${pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  /** Fetches an object. Resolves the raw response, so callers can stream it or check for 404. */
+  function get(key, { headers } = {}) {
+    return fetch(presign(key, { expiresIn: 60 }), { headers });
+  }
+
+  /** Lists every object under `prefix`, following continuation tokens. */
+  async function list(prefix) {
+    const objects = [];
+    let continuationToken;
+    do {
+      const query = { "list-type": "2", prefix };
+      if (continuationToken) query["continuation-token"] = continuationToken;
+      const response = await fetch(presign("", { expiresIn: 60, query }));
+      if (!response.ok) {
+        throw new Error(`Listing ${prefix} failed: ${response.status} ${response.statusText}`);
+      }
+      const xml = await response.text();
+      for (const [, body] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        objects.push({
+          key: decodeXml(xmlField(body, "Key") ?? ""),
+          lastModified: xmlField(body, "LastModified"),
+          size: Number(xmlField(body, "Size") ?? 0),
+        });
+      }
+      continuationToken = xmlField(xml, "IsTruncated") === "true" ? xmlField(xml, "NextContinuationToken") : null;
+      continuationToken &&= decodeXml(continuationToken);
+    } while (continuationToken);
+    return objects;
+  }
+
+  return { presign, get, list };
+}
+
+function encodeRfc3986(value) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key, value) {
+  return crypto.createHmac("sha256", key).update(value).digest();
+}
+
+function sha256Hex(value) {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function xmlField(xml, name) {
+  return new RegExp(`<${name}>([^<]*)</${name}>`).exec(xml)?.[1] ?? null;
+}
+
+function decodeXml(value) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
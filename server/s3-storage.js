@@ -0,0 +1,280 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { METADATA_FILE_NAME, THUMBNAIL_TRACK_NAME } from "../transcoder/index.js";
+import { normalizeMetadata } from "./video-metadata.js";
+
+// Statuses the vps worker publishes once the HLS output is in the bucket.
+const READY_STATUSES = new Set(["hls_uploaded", "cleanup_done"]);
+const CATALOG_TTL_MS = 30_000;
+// How long a title whose master playlist is missing stays hidden before it's checked again.
+const MISSING_DETAILS_TTL_MS = 60_000;
+
+/**
+ * The bucket backend: titles uploaded by the sync worker (recorded in its
+ * `mappings.json`) or the vps worker (status records the queue backend
+ * writes under `statusPrefix`). Files are served below `routePrefix/<id>/`,
+ * either proxied through the server or, with `delivery: "presign"`, as
+ * rewritten playlists whose segments point at presigned bucket URLs.
+ */
+export function createS3Storage({ client, mappingsPath, statusPrefix, delivery, urlTtlSeconds, routePrefix }) {
+  let catalog = null;
+  const statusCache = new Map();
+  const detailsCache = new Map();
+
+  async function loadTitles() {
+    if (catalog && Date.now() - catalog.loadedAt < CATALOG_TTL_MS) return catalog.pending;
+    const previous = catalog;
+    const pending = readCatalog().catch((error) => {
+      if (!previous) throw error;
+      // Keep serving what was listed before rather than dropping every remote title.
+      console.error("Failed to refresh the remote library:", error);
+      return previous.pending;
+    });
+    catalog = { loadedAt: Date.now(), pending };
+    pending.catch(() => {
+      if (catalog?.pending === pending) catalog = null;
+    });
+    return pending;
+  }
+
+  async function readCatalog() {
+    const titles = new Map();
+    for (const entry of await readMappings(mappingsPath)) {
+      addTitle(titles, {
+        id: entry.hlsId,
+        name: entry.torrentKey,
+        playlistKey: entry.playlistKey,
+        thumbnailsKey: entry.thumbnailsKey,
+        addedAt: entry.uploadedAt,
+      });
+    }
+    for (const record of await readStatusRecords()) {
+      if (!READY_STATUSES.has(record.status)) continue;
+      addTitle(titles, {
+        id: record.id,
+        name: record.torrentKey,
+        playlistKey: record.hlsKey,
+        thumbnailsKey: record.meta?.thumbnailsKey,
+        addedAt: record.updatedAt,
+      });
+    }
+    return titles;
+  }
+
+  async function readStatusRecords() {
+    const objects = await client.list(`${statusPrefix}/`);
+    const records = await Promise.all(
+      objects
+        .filter((object) => object.key.endsWith(".json"))
+        .map(async (object) => {
+          const cached = statusCache.get(object.key);
+          if (cached?.lastModified === object.lastModified) return cached.record;
+          const response = await client.get(object.key);
+          if (!response.ok) return null;
+          let record = null;
+          try {
+            record = await response.json();
+          } catch {
+            // treated like a missing record
+          }
+          statusCache.set(object.key, { lastModified: object.lastModified, record });
+          return record;
+        })
+    );
+    return records.filter((record) => record && typeof record === "object");
+  }
+
+  async function loadDetails(title) {
+    const cached = detailsCache.get(title.id);
+    if (cached?.playlistKey === title.playlistKey && (cached.expiresAt === null || cached.expiresAt > Date.now())) {
+      return cached.pending;
+    }
+
+    const pending = (async () => {
+      const [master, metadataResponse] = await Promise.all([
+        client.get(title.playlistKey),
+        client.get(`${title.prefix}/${METADATA_FILE_NAME}`),
+      ]);
+      if (!master.ok) return null;
+      const hlsSubtitles = (await master.text()).includes("TYPE=SUBTITLES");
+      let raw = null;
+      if (metadataResponse.ok) {
+        raw = await metadataResponse.json().catch(() => null);
+      }
+      return { hlsSubtitles, raw };
+    })();
+    const entry = { playlistKey: title.playlistKey, pending, expiresAt: null };
+    detailsCache.set(title.id, entry);
+    pending.then(
+      (details) => {
+        if (!details) entry.expiresAt = Date.now() + MISSING_DETAILS_TTL_MS;
+      },
+      () => {
+        if (detailsCache.get(title.id) === entry) detailsCache.delete(title.id);
+      }
+    );
+    return pending;
+  }
+
+  async function listVideos() {
+    const titles = await loadTitles();
+    const entries = await Promise.all(
+      [...titles.values()].map(async (title) => {
+        let details;
+        try {
+          details = await loadDetails(title);
+        } catch (error) {
+          // One unreachable title shouldn't hide the rest of the bucket.
+          console.error(`Failed to load remote title ${title.id}:`, error);
+          return null;
+        }
+        if (!details) return null;
+        const fileUrl = (file) => `${routePrefix}/${title.id}/${file}`;
+        const metadata = normalizeMetadata(details.raw);
+        const thumbnailsFile = relativeKey(title, title.thumbnailsKey);
+        const playlistPath = fileUrl(relativeKey(title, title.playlistKey));
+        return {
+          name: title.name,
+          hls: true,
+          hlsPath: playlistPath,
+          hlsMasterPath: playlistPath,
+          hlsSubtitles: details.hlsSubtitles,
+          thumbnailsPath: thumbnailsFile ? fileUrl(thumbnailsFile) : null,
+          sizeBytes: Number.isFinite(details.raw?.sizeBytes) ? details.raw.sizeBytes : null,
+          addedAt: title.addedAt,
+          metadata,
+          posterPath: metadata?.poster ? fileUrl(metadata.poster) : null,
+        };
+      })
+    );
+    return entries.filter(Boolean);
+  }
+
+  /** Answers a request for `file` (a path below the title's prefix) of the title with `id`. */
+  async function serve(id, file, req, res) {
+    const title = (await loadTitles()).get(id);
+    if (!title) {
+      res.sendStatus(404);
+      return;
+    }
+    const segments = file.split("/");
+    if (segments.some((segment) => !segment || segment === "." || segment === "..")) {
+      res.sendStatus(400);
+      return;
+    }
+
+    const key = `${title.prefix}/${file}`;
+    if (delivery === "presign") {
+      const isThumbnailTrack = path.posix.basename(file) === THUMBNAIL_TRACK_NAME;
+      if (!file.endsWith(".m3u8") && !isThumbnailTrack) {
+        res.redirect(302, sign(key));
+        return;
+      }
+      const upstream = await client.get(key);
+      if (!upstream.ok) {
+        res.sendStatus(upstream.status === 404 ? 404 : 502);
+        return;
+      }
+      const text = await upstream.text();
+      res.setHeader("Cache-Control", "no-cache");
+      if (isThumbnailTrack) {
+        res.type("text/vtt").send(rewriteThumbnailTrack(text, key, sign));
+      } else {
+        res.type("application/vnd.apple.mpegurl").send(rewritePlaylist(text, key, sign));
+      }
+      return;
+    }
+
+    const upstream = await client.get(key, { headers: req.headers.range ? { Range: req.headers.range } : undefined });
+    if (!upstream.ok) {
+      await upstream.body?.cancel();
+      res.sendStatus(upstream.status === 404 ? 404 : upstream.status === 416 ? 416 : 502);
+      return;
+    }
+    res.status(upstream.status);
+    for (const header of ["content-type", "content-length", "content-range", "accept-ranges", "etag", "last-modified"]) {
+      const value = upstream.headers.get(header);
+      if (value) res.setHeader(header, value);
+    }
+    res.setHeader("Cache-Control", cacheControlFor(file));
+    try {
+      await pipeline(Readable.fromWeb(upstream.body), res);
+    } catch {
+      // the viewer went away mid-segment
+    }
+  }
+
+  function sign(key) {
+    return client.presign(key, { expiresIn: urlTtlSeconds });
+  }
+
+  return { name: "s3", listVideos, serve };
+}
+
+function addTitle(titles, { id, name, playlistKey, thumbnailsKey, addedAt }) {
+  if (typeof id !== "string" || !id || typeof playlistKey !== "string" || !playlistKey.includes("/")) return;
+  const previous = titles.get(id);
+  titles.set(id, {
+    id,
+    name: typeof name === "string" && name ? name : id,
+    playlistKey,
+    prefix: path.posix.dirname(playlistKey),
+    thumbnailsKey: typeof thumbnailsKey === "string" ? thumbnailsKey : previous?.thumbnailsKey ?? null,
+    addedAt: typeof addedAt === "string" ? addedAt : previous?.addedAt ?? null,
+  });
+}
+
+async function readMappings(mappingsPath) {
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(mappingsPath, "utf8"));
+    return Array.isArray(parsed) ? parsed.filter((entry) => entry && typeof entry === "object") : [];
+  } catch {
+    return [];
+  }
+}
+
+function relativeKey(title, key) {
+  if (!key?.startsWith(`${title.prefix}/`)) return null;
+  return key.slice(title.prefix.length + 1);
+}
+
+/**
+ * Points segment, init and key URIs at presigned URLs. A playlist reached
+ * through a redirect would resolve relative URIs against the bucket, where
+ * they aren't signed, so nested playlists stay relative to this route.
+ */
+function rewritePlaylist(text, playlistKey, sign) {
+  const dir = path.posix.dirname(playlistKey);
+  const resolve = (uri) => (/^[a-z][a-z0-9+.-]*:/i.test(uri) ? uri : sign(path.posix.join(dir, uri)));
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      if (line.startsWith("#EXT-X-MAP:") || line.startsWith("#EXT-X-KEY:")) {
+        return line.replace(/URI="([^"]+)"/, (_match, uri) => `URI="${resolve(uri)}"`);
+      }
+      const uri = line.trim();
+      if (!uri || uri.startsWith("#") || uri.endsWith(".m3u8")) return line;
+      return resolve(uri);
+    })
+    .join("\n");
+}
+
+function rewriteThumbnailTrack(text, trackKey, sign) {
+  const dir = path.posix.dirname(trackKey);
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = /^([^\s#]+\.jpg)(#xywh=.*)$/.exec(line.trim());
+      return match ? `${sign(path.posix.join(dir, match[1]))}${match[2]}` : line;
+    })
+    .join("\n");
+}
+
+// Same caching as the local /hls route.
+function cacheControlFor(file) {
+  if (file.endsWith(".m3u8")) return "no-cache";
+  if (file.endsWith(".ts") || file.endsWith(".jpg")) return "public, max-age=31536000, immutable";
+  return "public, max-age=3600";
+}
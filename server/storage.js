@@ -0,0 +1,59 @@
+import path from "path";
+import { createLocalStorage } from "./local-storage.js";
+import { createS3Client } from "./s3-client.js";
+import { createS3Storage } from "./s3-storage.js";
+
+export const REMOTE_HLS_ROUTE = "/api/remote-hls";
+
+/**
+ * Builds the storage backends named in `STORAGE_BACKENDS` (comma separated,
+ * default `local`). Each one lists its titles in the `/api/videos` shape.
+ *
+ * - `local`: `videos/` and `hls/` next to the server.
+ * - `s3`: the bucket the sync and vps workers upload to, configured with the
+ *   same `R2_ENDPOINT`, `R2_BUCKET`, `R2_ACCESS_KEY_ID` and
+ *   `R2_SECRET_ACCESS_KEY`. `REMOTE_HLS_DELIVERY=presign` sends players
+ *   straight to the bucket (which then needs a CORS rule for the app's
+ *   origin); the default `proxy` streams everything through the server.
+ */
+export function createStorageBackends({ rootDir, videosDir, hlsDir, env = process.env }) {
+  const names = (env.STORAGE_BACKENDS ?? "local")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    if (name === "local") return createLocalStorage({ videosDir, hlsDir });
+    if (name === "s3") return createS3Backend(rootDir, env);
+    throw new Error(`Unknown storage backend "${name}" in STORAGE_BACKENDS.`);
+  });
+}
+
+function createS3Backend(rootDir, env) {
+  const required = ["R2_ENDPOINT", "R2_BUCKET", "R2_ACCESS_KEY_ID", "R2_SECRET_ACCESS_KEY"];
+  const missing = required.filter((name) => !env[name]);
+  if (missing.length) {
+    throw new Error(`The s3 storage backend needs ${missing.join(", ")}.`);
+  }
+  const delivery = env.REMOTE_HLS_DELIVERY ?? "proxy";
+  if (delivery !== "proxy" && delivery !== "presign") {
+    throw new Error(`REMOTE_HLS_DELIVERY must be "proxy" or "presign", not "${delivery}".`);
+  }
+
+  const client = createS3Client({
+    endpoint: env.R2_ENDPOINT,
+    bucket: env.R2_BUCKET,
+    accessKeyId: env.R2_ACCESS_KEY_ID,
+    secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+    region: env.R2_REGION || "auto",
+  });
+  return createS3Storage({
+    client,
+    mappingsPath: path.resolve(rootDir, env.REMOTE_MAPPINGS_PATH ?? "sync/mappings.json"),
+    statusPrefix: env.REMOTE_STATUS_PREFIX ?? "status",
+    delivery,
+    // Long enough to finish a film after pausing; playlists are re-signed on every load.
+    urlTtlSeconds: Number.parseInt(env.REMOTE_URL_TTL_SECONDS ?? "", 10) || 6 * 60 * 60,
+    routePrefix: REMOTE_HLS_ROUTE,
+  });
+}
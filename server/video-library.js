@@ -0,0 +1,123 @@
+import fs from "fs";
+import path from "path";
+import { listVideoFiles } from "../transcoder/index.js";
+
+const SORT_KEYS = new Set(["name", "added", "duration"]);
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Lists every video under `videosDir`, including subfolders. Names are POSIX
+ * paths relative to it, so `encodeHlsId(name)` stays the same for videos
+ * that were already at the top level.
+ */
+export async function scanLibrary(videosDir) {
+  const names = await listVideoFiles(videosDir);
+  const entries = await Promise.all(
+    names.map(async (name) => {
+      try {
+        const stats = await fs.promises.stat(path.join(videosDir, name));
+        const addedAt = new Date(stats.birthtimeMs || stats.mtimeMs).toISOString();
+        return { name, sizeBytes: stats.size, addedAt };
+      } catch {
+        // removed between listing and stat
+        return null;
+      }
+    })
+  );
+  return entries.filter(Boolean);
+}
+
+/**
+ * Reads `q`, `folder`, `sort`, `order`, `page` and `pageSize` from a request
+ * query. Without `folder` the whole library is listed flat and only paged
+ * when `pageSize` is given, which is what the player itself fetches.
+ * Returns null for a folder that tries to leave the library.
+ */
+export function parseLibraryQuery(query) {
+  const text = typeof query.q === "string" ? query.q.trim().toLowerCase() : "";
+  let folder = null;
+  if (typeof query.folder === "string") {
+    folder = normalizeFolder(query.folder);
+    if (folder === null) return null;
+  }
+  const sort = SORT_KEYS.has(query.sort) ? query.sort : "name";
+  const defaultOrder = sort === "added" ? "desc" : "asc";
+  const order = query.order === "asc" || query.order === "desc" ? query.order : defaultOrder;
+  const page = Math.max(1, Number.parseInt(query.page, 10) || 1);
+  const requestedSize = Number.parseInt(query.pageSize, 10);
+  const pageSize =
+    requestedSize > 0 ? Math.min(requestedSize, MAX_PAGE_SIZE) : folder !== null ? DEFAULT_PAGE_SIZE : null;
+  return { text, folder, sort, order, page, pageSize };
+}
+
+function normalizeFolder(value) {
+  const segments = value.split("/").filter(Boolean);
+  if (segments.some((segment) => segment === "." || segment === ".." || segment.startsWith("."))) {
+    return null;
+  }
+  return segments.join("/");
+}
+
+/**
+ * Filters, sorts and pages library entries. Browsing a folder returns its
+ * direct subfolders and the videos directly inside it; searching within a
+ * folder matches videos anywhere below it and skips subfolders.
+ */
+export function queryLibrary(videos, { text, folder, sort, order, page, pageSize }) {
+  const prefix = folder ? `${folder}/` : "";
+  const inFolder = folder === null ? videos : videos.filter((video) => video.name.startsWith(prefix));
+
+  let files = inFolder;
+  let folders = [];
+  if (text) {
+    files = inFolder.filter((video) => video.name.slice(prefix.length).toLowerCase().includes(text));
+  } else if (folder !== null) {
+    const counts = new Map();
+    files = [];
+    for (const video of inFolder) {
+      const rest = video.name.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      if (slash === -1) {
+        files.push(video);
+      } else {
+        const name = rest.slice(0, slash);
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+      }
+    }
+    folders = [...counts]
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([name, videoCount]) => ({ name, path: `${prefix}${name}`, videoCount }));
+  }
+
+  const direction = order === "desc" ? -1 : 1;
+  files = [...files].sort((a, b) => {
+    if (sort === "duration") {
+      const aDuration = a.metadata?.durationSeconds || null;
+      const bDuration = b.metadata?.durationSeconds || null;
+      // Untranscoded videos have no duration yet and stay at the end either way.
+      if (aDuration === null || bDuration === null) {
+        if (aDuration !== bDuration) return aDuration === null ? 1 : -1;
+      } else if (aDuration !== bDuration) {
+        return (aDuration - bDuration) * direction;
+      }
+    } else if (sort === "added") {
+      const aAdded = Date.parse(a.addedAt ?? "");
+      const bAdded = Date.parse(b.addedAt ?? "");
+      // Remote titles can lack an upload date; like missing durations they go last.
+      if (Number.isNaN(aAdded) || Number.isNaN(bAdded)) {
+        if (Number.isNaN(aAdded) !== Number.isNaN(bAdded)) return Number.isNaN(aAdded) ? 1 : -1;
+      } else if (aAdded !== bAdded) {
+        return (aAdded - bAdded) * direction;
+      }
+    }
+    const byName = a.name.localeCompare(b.name, undefined, { numeric: true });
+    return sort === "name" ? byName * direction : byName;
+  });
+
+  const total = files.length;
+  if (pageSize !== null) {
+    files = files.slice((page - 1) * pageSize, page * pageSize);
+  }
+  return { files, folders, total, page, pageSize: pageSize ?? total };
+}
@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+import { METADATA_FILE_NAME } from "../transcoder/index.js";
+
+const metadataCache = new Map();
+
+/**
+ * Reads the `metadata.json` the transcoder leaves in an HLS directory,
+ * cached until the file changes. Resolves null for output that predates it
+ * or a file that can't be parsed.
+ */
+export async function readVideoMetadata(dir) {
+  const metadataPath = path.join(dir, METADATA_FILE_NAME);
+  let mtimeMs;
+  try {
+    ({ mtimeMs } = await fs.promises.stat(metadataPath));
+  } catch {
+    return null;
+  }
+  const cached = metadataCache.get(metadataPath);
+  if (cached?.mtimeMs === mtimeMs) return cached.metadata;
+
+  let metadata = null;
+  try {
+    metadata = normalizeMetadata(JSON.parse(await fs.promises.readFile(metadataPath, "utf8")));
+  } catch {
+    // treated like missing metadata
+  }
+  metadataCache.set(metadataPath, { mtimeMs, metadata });
+  return metadata;
+}
+
+export function normalizeMetadata(raw) {
+  if (!raw || typeof raw !== "object") return null;
+  const number = (value) => (Number.isFinite(value) && value >= 0 ? value : 0);
+  const strings = (value) => (Array.isArray(value) ? value.filter((item) => typeof item === "string") : []);
+  return {
+    durationSeconds: number(raw.durationSeconds),
+    width: number(raw.width),
+    height: number(raw.height),
+    videoCodec: typeof raw.videoCodec === "string" ? raw.videoCodec : null,
+    audioCodecs: strings(raw.audioCodecs),
+    audioLanguages: strings(raw.audioLanguages),
+    poster: typeof raw.poster === "string" ? path.basename(raw.poster) : null,
+  };
+}
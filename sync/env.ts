@@ -12,6 +12,7 @@ const EnvSchema = z
     CF_API_TOKEN: z.string().min(1),
     SYNC_TORRENTS_PREFIX: z.string().min(1).optional(),
     SYNC_HLS_PREFIX: z.string().min(1).optional(),
+    SYNC_HLS_LADDER: z.string().min(1).optional(),
     SYNC_WORK_DIR: z.string().min(1).optional(),
     SYNC_CONCURRENCY: z
       .string()
@@ -42,6 +43,7 @@ export type SyncEnv = {
   apiToken: string;
   torrentsPrefix: string;
   hlsPrefix: string;
+  hlsLadder: string;
   workDir: string;
   concurrency: number;
   pollMs: number;
@@ -59,6 +61,7 @@ export function loadEnv(): Result<SyncEnv, Error> {
   const workDir = env.SYNC_WORK_DIR ?? "sync/work";
   const torrentsPrefix = env.SYNC_TORRENTS_PREFIX ?? "torrents";
   const hlsPrefix = env.SYNC_HLS_PREFIX ?? "hls";
+  const hlsLadder = env.SYNC_HLS_LADDER ?? "1080p,720p,480p,360p";
   const concurrency = Number.parseInt(env.SYNC_CONCURRENCY ?? "1", 10) || 1;
   const pollMs = Number.parseInt(env.SYNC_POLL_MS ?? "2000", 10) || 2000;
   const batchSize = Number.parseInt(env.SYNC_BATCH_SIZE ?? "5", 10) || 5;
@@ -75,6 +78,7 @@ export function loadEnv(): Result<SyncEnv, Error> {
     apiToken: env.CF_API_TOKEN,
     torrentsPrefix,
     hlsPrefix,
+    hlsLadder,
     workDir,
     concurrency,
     pollMs,
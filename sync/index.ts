@@ -1,15 +1,21 @@
 import fs from "fs";
 import path from "path";
-import { spawn } from "child_process";
 import { fileURLToPath } from "url";
 import { ResultAsync } from "neverthrow";
 import { loadEnv } from "./env";
 import { uploadHlsDir } from "../uploader/upload";
+import {
+  MASTER_PLAYLIST_NAME,
+  encodeHlsId,
+  renderTranscodeProgress,
+  transcodeToHls,
+} from "../transcoder";
 
 type MappingEntry = {
   torrentKey: string;
   hlsId: string;
   playlistKey: string;
+  thumbnailsKey?: string;
   uploadedAt: string;
 };
 
@@ -93,8 +99,15 @@ async function processTorrent(key: string) {
 
   await downloadObjectWithProgress(key, localVideoPath);
 
-  const playlistPath = path.join(outputDir, "index.m3u8");
-  await runFfmpeg(localVideoPath, outputDir, playlistPath);
+  const { thumbnails } = await transcodeToHls(
+    localVideoPath,
+    outputDir,
+    { ladder: env.hlsLadder },
+    {
+      onProgress: renderTranscodeProgress(`Encoding ${filename}`),
+      onWarning: (message) => console.warn(message),
+    },
+  );
 
   const prefix = `${env.hlsPrefix}/${id}`;
   await unwrapOrExitAsync(
@@ -112,7 +125,8 @@ async function processTorrent(key: string) {
   await upsertMapping({
     torrentKey: key,
     hlsId: id,
-    playlistKey: `${prefix}/index.m3u8`,
+    playlistKey: `${prefix}/${MASTER_PLAYLIST_NAME}`,
+    ...(thumbnails ? { thumbnailsKey: `${prefix}/${thumbnails.uri}` } : {}),
     uploadedAt: new Date().toISOString(),
   });
 
@@ -181,65 +195,6 @@ function formatBytes(bytes: number) {
   return `${value.toFixed(1)}${units[unitIndex]}`;
 }
 
-async function runFfmpeg(inputPath: string, outputDir: string, playlist: string) {
-  await new Promise<void>((resolve, reject) => {
-    const segmentPattern = path.join(outputDir, "%03d.ts");
-    const segmentSeconds = 2;
-    const args = [
-      "-i",
-      inputPath,
-      "-preset",
-      "veryfast",
-      "-c:v",
-      "libx264",
-      "-profile:v",
-      "main",
-      "-level",
-      "4.1",
-      "-pix_fmt",
-      "yuv420p",
-      "-crf",
-      "23",
-      "-maxrate",
-      "3500k",
-      "-bufsize",
-      "7000k",
-      "-g",
-      "48",
-      "-keyint_min",
-      "48",
-      "-sc_threshold",
-      "0",
-      "-force_key_frames",
-      `expr:gte(t,n_forced*${segmentSeconds})`,
-      "-c:a",
-      "aac",
-      "-b:a",
-      "128k",
-      "-ac",
-      "2",
-      "-hls_time",
-      String(segmentSeconds),
-      "-hls_list_size",
-      "0",
-      "-hls_playlist_type",
-      "vod",
-      "-hls_flags",
-      "independent_segments",
-      "-hls_segment_filename",
-      segmentPattern,
-      playlist,
-    ];
-
-    const proc = spawn("ffmpeg", args, { stdio: "inherit" });
-    proc.on("error", reject);
-    proc.on("close", (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`ffmpeg exited with code ${code}`));
-    });
-  });
-}
-
 async function pullBatch() {
   const url = `https://api.cloudflare.com/client/v4/accounts/${env.accountId}/queues/${env.queueId}/messages/pull`;
   const response = await fetch(url, {
@@ -330,10 +285,6 @@ async function upsertMapping(entry: MappingEntry) {
   await fs.promises.writeFile(mappingsPath, JSON.stringify(current, null, 2));
 }
 
-function encodeHlsId(value: string) {
-  return Buffer.from(value).toString("base64url");
-}
-
 function unwrapOrExit<T>(result: { isOk(): boolean; value: T; error: Error }) {
   if (result.isOk()) return result.value;
   console.error(result.error.message);
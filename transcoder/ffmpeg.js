@@ -0,0 +1,26 @@
+import { spawn } from "child_process";
+
+// Enough of ffmpeg's stderr to explain a failure.
+const STDERR_TAIL_BYTES = 4096;
+
+/** Runs ffmpeg to completion, streaming its stdout to `onStdout`. Rejects with the stderr tail on failure. */
+export function runFfmpeg(args, onStdout = () => {}) {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("ffmpeg", args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stderr = "";
+
+    proc.stdout.setEncoding("utf8");
+    proc.stdout.on("data", onStdout);
+    proc.stderr.setEncoding("utf8");
+    proc.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-STDERR_TAIL_BYTES);
+    });
+
+    proc.on("error", reject);
+    proc.on("close", (code) => {
+      if (code === 0) return resolve();
+      const detail = stderr.trim();
+      reject(new Error(`ffmpeg exited with code ${code}${detail ? `: ${detail}` : ""}`));
+    });
+  });
+}
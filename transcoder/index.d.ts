@@ -0,0 +1,143 @@
+export type RenditionName = "1080p" | "720p" | "480p" | "360p";
+
+export type LadderPreset = {
+  maxWidth: number;
+  maxHeight: number;
+  videoBitrate: number;
+  level: string;
+  levelCode: string;
+};
+
+export type Rendition = LadderPreset & {
+  name: RenditionName;
+  width: number;
+  height: number;
+};
+
+export type TranscodeProfile = {
+  /** Rendition names, as an array or a comma-separated list. Defaults to the full ladder. */
+  ladder?: string | string[];
+  segmentSeconds?: number;
+  /** Audio bitrate in bits per second. */
+  audioBitrate?: number;
+  x264Preset?: string;
+  /** Seconds between seek-preview thumbnails; 0 skips them. */
+  thumbnailIntervalSeconds?: number;
+};
+
+export type TranscodeProgress = {
+  outTimeSeconds: number;
+  durationSeconds: number;
+  /** Null while the source duration is unknown. */
+  percent: number | null;
+  frame: number;
+  fps: number;
+  speed: number | null;
+  done: boolean;
+};
+
+export type TranscodeOptions = {
+  onProgress?: (progress: TranscodeProgress) => void;
+  /** Called for subtitle sources that could not be converted and were skipped. */
+  onWarning?: (message: string) => void;
+};
+
+export type SubtitleTrack = {
+  name: string;
+  /** BCP 47 language, or null when the source didn't say. */
+  language: string | null;
+  /** Media playlist, relative to the output directory. */
+  uri: string;
+  default: boolean;
+  forced: boolean;
+};
+
+export type ThumbnailTrack = {
+  /** WebVTT track whose cues point at sprite tiles with `#xywh=` fragments, relative to the output directory. */
+  uri: string;
+  intervalSeconds: number;
+  width: number;
+  height: number;
+};
+
+/** What ffprobe reported about a source; zero sizes and durations when it couldn't tell. */
+export type SourceInfo = {
+  width: number;
+  height: number;
+  hasAudio: boolean;
+  durationSeconds: number;
+  videoCodec: string | null;
+  audioStreams: { codec: string; language: string | null }[];
+  subtitleStreams: {
+    index: number;
+    codec: string;
+    language: string | null;
+    title: string | null;
+    default: boolean;
+    forced: boolean;
+    hearingImpaired: boolean;
+  }[];
+};
+
+export type VideoMetadata = {
+  sizeBytes: number;
+  /** 0 when ffprobe couldn't tell. */
+  durationSeconds: number;
+  width: number;
+  height: number;
+  videoCodec: string | null;
+  audioCodecs: string[];
+  /** BCP 47 languages of the audio streams that declare one. */
+  audioLanguages: string[];
+  /** Poster image, relative to the output directory; null if no frame could be grabbed. */
+  poster: string | null;
+  generatedAt: string;
+};
+
+export type TranscodeResult = {
+  playlistPath: string;
+  renditions: Rendition[];
+  subtitles: SubtitleTrack[];
+  /** Null when thumbnails were disabled, failed, or the duration was unknown. */
+  thumbnails: ThumbnailTrack | null;
+  metadata: VideoMetadata;
+  durationSeconds: number;
+};
+
+export const LADDER_PRESETS: Record<RenditionName, LadderPreset>;
+export const DEFAULT_LADDER: RenditionName[];
+export const MASTER_PLAYLIST_NAME: string;
+export const VIDEO_EXTENSIONS: string[];
+export const SUBTITLE_EXTENSIONS: string[];
+export const THUMBNAIL_TRACK_NAME: string;
+export const METADATA_FILE_NAME: string;
+export const POSTER_FILE_NAME: string;
+
+export function transcodeToHls(
+  input: string,
+  outputDir: string,
+  profile?: TranscodeProfile,
+  options?: TranscodeOptions,
+): Promise<TranscodeResult>;
+
+export function encodeHlsId(name: string): string;
+export function isVideoFile(name: string): boolean;
+export function hlsOutputDir(hlsRoot: string, sourceName: string): string;
+export function listVideoFiles(videosDir: string): Promise<string[]>;
+export function measurePlaylist(playlistPath: string): Promise<{ peak: number; average: number }>;
+
+/** Progress callback that redraws `label` with the percentage and speed on one terminal line, throttled to 250ms. */
+export function renderTranscodeProgress(
+  label: string,
+  stream?: { write(chunk: string): unknown },
+): (progress: TranscodeProgress) => void;
+
+/**
+ * Writes `metadata.json` and `poster.jpg` for an existing output directory, e.g. to backfill older output.
+ * Pass `source` to reuse an earlier probe.
+ */
+export function writeVideoMetadata(
+  input: string,
+  outputDir: string,
+  options?: { source?: SourceInfo; onWarning?: (message: string) => void },
+): Promise<VideoMetadata>;
@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import { runFfmpeg } from "./ffmpeg.js";
+import { DEFAULT_LADDER, buildLadderArgs, selectRenditions } from "./ladder.js";
+import { MASTER_PLAYLIST_NAME } from "./layout.js";
+import { writeVideoMetadata } from "./metadata.js";
+import { writeMasterPlaylist } from "./playlists.js";
+import { probeSource, probeStartTime } from "./probe.js";
+import { createProgressParser } from "./progress.js";
+import { extractSubtitles, findSubtitleSources } from "./subtitles.js";
+import { generateThumbnails } from "./thumbnails.js";
+
+export { DEFAULT_LADDER, LADDER_PRESETS } from "./ladder.js";
+export {
+  MASTER_PLAYLIST_NAME,
+  VIDEO_EXTENSIONS,
+  encodeHlsId,
+  hlsOutputDir,
+  isVideoFile,
+  listVideoFiles,
+} from "./layout.js";
+export { METADATA_FILE_NAME, POSTER_FILE_NAME, writeVideoMetadata } from "./metadata.js";
+export { measurePlaylist } from "./playlists.js";
+export { renderTranscodeProgress } from "./progress.js";
+export { SUBTITLE_EXTENSIONS } from "./subtitles.js";
+export { THUMBNAIL_TRACK_NAME } from "./thumbnails.js";
+
+const DEFAULT_PROFILE = {
+  ladder: DEFAULT_LADDER,
+  segmentSeconds: 2,
+  audioBitrate: 128_000,
+  x264Preset: "veryfast",
+  thumbnailIntervalSeconds: 10,
+};
+
+/**
+ * Transcodes `input` into an HLS bitrate ladder inside `outputDir`: one
+ * `index_<name>.m3u8` media playlist per rendition, segmented WebVTT for
+ * every text subtitle stream and sidecar subtitle file, seek-preview
+ * thumbnail sprites with a WebVTT index, a `metadata.json` with a poster
+ * frame for the library, plus a measured master `index.m3u8`. The master
+ * is written last, so its presence marks a complete run.
+ */
+export async function transcodeToHls(input, outputDir, profile = {}, options = {}) {
+  const settings = {
+    ladder: profile.ladder ?? DEFAULT_PROFILE.ladder,
+    segmentSeconds: profile.segmentSeconds ?? DEFAULT_PROFILE.segmentSeconds,
+    audioBitrate: profile.audioBitrate ?? DEFAULT_PROFILE.audioBitrate,
+    x264Preset: profile.x264Preset ?? DEFAULT_PROFILE.x264Preset,
+    thumbnailIntervalSeconds: profile.thumbnailIntervalSeconds ?? DEFAULT_PROFILE.thumbnailIntervalSeconds,
+  };
+  const source = await probeSource(input);
+  const renditions = selectRenditions(settings.ladder, source);
+  await fs.promises.mkdir(outputDir, { recursive: true });
+
+  const args = [
+    "-hide_banner",
+    "-nostats",
+    "-loglevel",
+    "error",
+    "-progress",
+    "pipe:1",
+    ...buildLadderArgs(input, outputDir, renditions, source, settings),
+  ];
+  await runFfmpeg(args, createProgressParser(source.durationSeconds, options.onProgress ?? (() => {})));
+
+  const subtitleSources = await findSubtitleSources(input, source.subtitleStreams);
+  const subtitles = subtitleSources.length
+    ? await extractSubtitles(input, outputDir, subtitleSources, {
+        durationSeconds: source.durationSeconds,
+        startTimeSeconds: await probeStartTime(path.join(outputDir, `${renditions[0].name}_000.ts`)),
+        onWarning: options.onWarning,
+      })
+    : [];
+
+  let thumbnails = null;
+  if (settings.thumbnailIntervalSeconds > 0) {
+    try {
+      thumbnails = await generateThumbnails(input, outputDir, source, {
+        intervalSeconds: settings.thumbnailIntervalSeconds,
+      });
+    } catch (error) {
+      options.onWarning?.(`Could not generate thumbnails: ${error.message}`);
+    }
+  }
+
+  const metadata = await writeVideoMetadata(input, outputDir, { source, onWarning: options.onWarning });
+
+  const playlistPath = path.join(outputDir, MASTER_PLAYLIST_NAME);
+  await writeMasterPlaylist(outputDir, playlistPath, renditions, source, subtitles);
+  return { playlistPath, renditions, subtitles, thumbnails, metadata, durationSeconds: source.durationSeconds };
+}
@@ -0,0 +1,116 @@
+import path from "path";
+
+// Each rendition fits the source inside a bounding box and has a fixed
+// bitrate and H.264 level, so the master playlist can advertise accurate
+// attributes.
+export const LADDER_PRESETS = {
+  "1080p": { maxWidth: 1920, maxHeight: 1080, videoBitrate: 5_000_000, level: "4.0", levelCode: "28" },
+  "720p": { maxWidth: 1280, maxHeight: 720, videoBitrate: 2_800_000, level: "3.1", levelCode: "1f" },
+  "480p": { maxWidth: 854, maxHeight: 480, videoBitrate: 1_400_000, level: "3.0", levelCode: "1e" },
+  "360p": { maxWidth: 640, maxHeight: 360, videoBitrate: 800_000, level: "3.0", levelCode: "1e" },
+};
+export const DEFAULT_LADDER = ["1080p", "720p", "480p", "360p"];
+
+export function selectRenditions(ladder, source) {
+  const names = (Array.isArray(ladder) ? ladder : ladder.split(","))
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const unknown = names.filter((name) => !LADDER_PRESETS[name]);
+  if (unknown.length) {
+    throw new Error(`Unknown HLS ladder renditions: ${unknown.join(", ")}`);
+  }
+  const presets = names
+    .map((name) => ({ name, ...LADDER_PRESETS[name] }))
+    .sort((a, b) => b.maxHeight - a.maxHeight);
+  if (!presets.length) {
+    throw new Error("The HLS ladder must list at least one rendition.");
+  }
+  // Never upscale; keep the smallest rendition even for tiny sources.
+  const fitting =
+    source.width && source.height
+      ? presets.filter((preset) => source.width >= preset.maxWidth || source.height >= preset.maxHeight)
+      : presets;
+  return (fitting.length ? fitting : presets.slice(-1)).map((preset) => ({
+    ...preset,
+    ...fitInside(source, preset),
+  }));
+}
+
+function fitInside(source, { maxWidth, maxHeight }) {
+  if (!source.width || !source.height) return { width: maxWidth, height: maxHeight };
+  const scale = Math.min(1, maxWidth / source.width, maxHeight / source.height);
+  return {
+    width: Math.round((source.width * scale) / 2) * 2,
+    height: Math.round((source.height * scale) / 2) * 2,
+  };
+}
+
+export function buildLadderArgs(inputPath, outputDir, renditions, source, options) {
+  const { segmentSeconds, audioBitrate, x264Preset } = options;
+  const split = renditions.map((_, index) => `[v${index}]`).join("");
+  const scales = renditions.map(
+    (rendition, index) =>
+      // Only changes anything when probing failed and the box is a guess.
+      `[v${index}]scale=w=${rendition.width}:h=${rendition.height}:force_original_aspect_ratio=decrease:force_divisible_by=2[v${index}out]`
+  );
+  const args = ["-i", inputPath, "-filter_complex", [`[0:v]split=${renditions.length}${split}`, ...scales].join(";")];
+
+  renditions.forEach((rendition, index) => {
+    const kbps = Math.round(rendition.videoBitrate / 1000);
+    args.push(
+      "-map",
+      `[v${index}out]`,
+      `-c:v:${index}`,
+      "libx264",
+      `-b:v:${index}`,
+      `${kbps}k`,
+      `-maxrate:v:${index}`,
+      `${Math.round(kbps * 1.07)}k`,
+      `-bufsize:v:${index}`,
+      `${kbps * 2}k`,
+      `-level:v:${index}`,
+      rendition.level
+    );
+    if (source.hasAudio) {
+      args.push("-map", "0:a:0");
+    }
+  });
+
+  const streamMap = renditions
+    .map((rendition, index) => `v:${index}${source.hasAudio ? `,a:${index}` : ""},name:${rendition.name}`)
+    .join(" ");
+
+  args.push(
+    "-preset",
+    x264Preset,
+    "-profile:v",
+    "main",
+    "-pix_fmt",
+    "yuv420p",
+    "-g",
+    "48",
+    "-keyint_min",
+    "48",
+    "-sc_threshold",
+    "0",
+    "-force_key_frames",
+    `expr:gte(t,n_forced*${segmentSeconds})`,
+    ...(source.hasAudio ? ["-c:a", "aac", "-b:a", `${Math.round(audioBitrate / 1000)}k`, "-ac", "2"] : []),
+    "-f",
+    "hls",
+    "-hls_time",
+    String(segmentSeconds),
+    "-hls_list_size",
+    "0",
+    "-hls_playlist_type",
+    "vod",
+    "-hls_flags",
+    "independent_segments",
+    "-hls_segment_filename",
+    path.join(outputDir, "%v_%03d.ts"),
+    "-var_stream_map",
+    streamMap,
+    path.join(outputDir, "index_%v.m3u8")
+  );
+  return args;
+}
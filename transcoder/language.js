@@ -0,0 +1,18 @@
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/** Canonical BCP 47 language for an ISO 639 code such as `eng` or `pt-BR`, or null if it isn't one. */
+export function normalizeLanguage(value) {
+  if (!value || !/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(value)) return null;
+  try {
+    const [canonical] = Intl.getCanonicalLocales(value);
+    if (!canonical || canonical === "und") return null;
+    return languageNames.of(canonical) === canonical ? null : canonical;
+  } catch {
+    return null;
+  }
+}
+
+/** English display name for a normalized language, e.g. "German" for `de`. */
+export function languageName(language) {
+  return languageNames.of(language) ?? language;
+}
@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+
+export const VIDEO_EXTENSIONS = [".mp4", ".mov", ".webm", ".mkv", ".m4v"];
+export const MASTER_PLAYLIST_NAME = "index.m3u8";
+
+/**
+ * HLS output ids are the base64url of the source name, so they are stable and
+ * URL-safe. Names are POSIX paths relative to the videos directory, which
+ * keeps ids of top-level files unchanged from before folders were supported.
+ */
+export function encodeHlsId(name) {
+  return Buffer.from(name).toString("base64url");
+}
+
+export function isVideoFile(name) {
+  return VIDEO_EXTENSIONS.includes(path.extname(name).toLowerCase());
+}
+
+export function hlsOutputDir(hlsRoot, sourceName) {
+  return path.join(hlsRoot, encodeHlsId(sourceName));
+}
+
+/** Video files anywhere under `videosDir` as sorted names, i.e. POSIX paths relative to it. Dotfiles are skipped. */
+export async function listVideoFiles(videosDir) {
+  const names = [];
+  async function walk(relativeDir) {
+    const entries = await fs.promises.readdir(path.join(videosDir, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const name = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) await walk(name);
+      else if (entry.isFile() && isVideoFile(entry.name)) names.push(name);
+    }
+  }
+  await walk("");
+  return names.sort();
+}
@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import { runFfmpeg } from "./ffmpeg.js";
+import { normalizeLanguage } from "./language.js";
+import { probeSource } from "./probe.js";
+
+export const METADATA_FILE_NAME = "metadata.json";
+export const POSTER_FILE_NAME = "poster.jpg";
+const POSTER_WIDTH = 480;
+// Far enough in to skip studio logos and fades from black.
+const POSTER_POSITION = 0.1;
+
+/**
+ * Writes `metadata.json` next to the HLS output: duration, resolution,
+ * codecs, audio languages and source size, plus a `poster.jpg` frame. The
+ * media library reads it instead of probing sources on every request.
+ * Pass `source` to reuse an earlier probe.
+ */
+export async function writeVideoMetadata(input, outputDir, { source, onWarning } = {}) {
+  const probed = source ?? (await probeSource(input));
+  const { size } = await fs.promises.stat(input);
+
+  let poster = null;
+  try {
+    poster = await extractPoster(input, outputDir, probed);
+  } catch (error) {
+    onWarning?.(`Could not extract a poster frame: ${error.message}`);
+  }
+
+  const audioLanguages = [
+    ...new Set(probed.audioStreams.map((stream) => normalizeLanguage(stream.language)).filter(Boolean)),
+  ];
+  const metadata = {
+    sizeBytes: size,
+    durationSeconds: probed.durationSeconds,
+    width: probed.width,
+    height: probed.height,
+    videoCodec: probed.videoCodec,
+    audioCodecs: [...new Set(probed.audioStreams.map((stream) => stream.codec).filter(Boolean))],
+    audioLanguages,
+    poster,
+    generatedAt: new Date().toISOString(),
+  };
+  await fs.promises.writeFile(path.join(outputDir, METADATA_FILE_NAME), `${JSON.stringify(metadata, null, 2)}\n`);
+  return metadata;
+}
+
+async function extractPoster(input, outputDir, source) {
+  const posterPath = path.join(outputDir, POSTER_FILE_NAME);
+  await fs.promises.rm(posterPath, { force: true });
+  await runFfmpeg([
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-y",
+    "-ss",
+    String(Math.floor(source.durationSeconds * POSTER_POSITION)),
+    "-i",
+    input,
+    "-frames:v",
+    "1",
+    "-vf",
+    `scale=${POSTER_WIDTH}:-2`,
+    "-q:v",
+    "3",
+    posterPath,
+  ]);
+  // ffmpeg exits cleanly without writing anything when the seek lands past the last frame.
+  await fs.promises.access(posterPath);
+  return POSTER_FILE_NAME;
+}
@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Writes the master playlist from the finished renditions. BANDWIDTH is the
+ * peak segment bitrate and AVERAGE-BANDWIDTH the mean, both measured from
+ * the files on disk rather than taken from the encoder settings. Subtitle
+ * tracks are listed as one `subs` rendition group shared by every variant.
+ */
+export async function writeMasterPlaylist(outputDir, playlistPath, renditions, source, subtitles = []) {
+  const subtitleGroup = subtitles.length ? ',SUBTITLES="subs"' : "";
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    "#EXT-X-INDEPENDENT-SEGMENTS",
+    ...subtitles.map(subtitleMediaLine),
+  ];
+  for (const rendition of renditions) {
+    const variantName = `index_${rendition.name}.m3u8`;
+    const { peak, average } = await measurePlaylist(path.join(outputDir, variantName));
+    const codecs = [`avc1.4d40${rendition.levelCode}`, ...(source.hasAudio ? ["mp4a.40.2"] : [])].join(",");
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${peak},AVERAGE-BANDWIDTH=${average},RESOLUTION=${rendition.width}x${rendition.height},CODECS="${codecs}"${subtitleGroup}`,
+      variantName
+    );
+  }
+  lines.push("");
+  await fs.promises.writeFile(playlistPath, lines.join("\n"));
+}
+
+function subtitleMediaLine(track) {
+  const attributes = [
+    "TYPE=SUBTITLES",
+    'GROUP-ID="subs"',
+    `NAME="${track.name.replace(/"/g, "'")}"`,
+    `DEFAULT=${track.default ? "YES" : "NO"}`,
+    `AUTOSELECT=${track.default || track.forced ? "YES" : "NO"}`,
+    ...(track.forced ? ["FORCED=YES"] : []),
+    ...(track.language ? [`LANGUAGE="${track.language}"`] : []),
+    `URI="${track.uri}"`,
+  ];
+  return `#EXT-X-MEDIA:${attributes.join(",")}`;
+}
+
+/** Peak and average bits per second of a media playlist's segments. Missing segments are skipped. */
+export async function measurePlaylist(playlistPath) {
+  const dir = path.dirname(playlistPath);
+  const text = await fs.promises.readFile(playlistPath, "utf8");
+  let peak = 0;
+  let totalBits = 0;
+  let totalSeconds = 0;
+  let duration = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("#EXTINF:")) {
+      duration = Number.parseFloat(line.slice("#EXTINF:".length));
+      continue;
+    }
+    if (!line || line.startsWith("#") || !(duration > 0)) continue;
+    try {
+      const { size } = await fs.promises.stat(path.join(dir, path.basename(line)));
+      peak = Math.max(peak, Math.ceil((size * 8) / duration));
+      totalBits += size * 8;
+      totalSeconds += duration;
+    } catch {
+      // measured from whatever segments are present
+    }
+    duration = 0;
+  }
+  const average = totalSeconds > 0 ? Math.ceil(totalBits / totalSeconds) : peak;
+  return { peak, average };
+}
@@ -0,0 +1,72 @@
+import { spawn } from "child_process";
+
+const UNKNOWN_SOURCE = {
+  width: 0,
+  height: 0,
+  hasAudio: true,
+  durationSeconds: 0,
+  videoCodec: null,
+  audioStreams: [],
+  subtitleStreams: [],
+};
+
+/**
+ * Reads the source dimensions, duration, codecs, audio and subtitle streams.
+ * Resolves with guesses if ffprobe fails.
+ */
+export async function probeSource(inputPath) {
+  const parsed = await runFfprobe(
+    inputPath,
+    "stream=index,codec_type,codec_name,width,height:stream_tags=language,title:stream_disposition=default,forced,hearing_impaired:format=duration"
+  );
+  if (!parsed) return UNKNOWN_SOURCE;
+
+  const streams = parsed.streams ?? [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  const audio = streams.filter((stream) => stream.codec_type === "audio");
+  const durationSeconds = Number.parseFloat(parsed.format?.duration ?? "");
+  return {
+    width: video?.width ?? 0,
+    height: video?.height ?? 0,
+    hasAudio: audio.length > 0,
+    durationSeconds: Number.isFinite(durationSeconds) ? durationSeconds : 0,
+    videoCodec: video?.codec_name ?? null,
+    audioStreams: audio.map((stream) => ({ codec: stream.codec_name ?? "", language: stream.tags?.language ?? null })),
+    subtitleStreams: streams
+      .filter((stream) => stream.codec_type === "subtitle")
+      .map((stream) => ({
+        index: stream.index,
+        codec: stream.codec_name ?? "",
+        language: stream.tags?.language ?? null,
+        title: stream.tags?.title ?? null,
+        default: stream.disposition?.default === 1,
+        forced: stream.disposition?.forced === 1,
+        hearingImpaired: stream.disposition?.hearing_impaired === 1,
+      })),
+  };
+}
+
+/** Start time of a media file in seconds, or null if ffprobe can't tell. */
+export async function probeStartTime(filePath) {
+  const parsed = await runFfprobe(filePath, "format=start_time");
+  const startTime = Number.parseFloat(parsed?.format?.start_time ?? "");
+  return Number.isFinite(startTime) ? startTime : null;
+}
+
+function runFfprobe(filePath, entries) {
+  return new Promise((resolve) => {
+    const proc = spawn("ffprobe", ["-v", "error", "-show_entries", entries, "-of", "json", filePath]);
+    let output = "";
+    proc.stdout.on("data", (chunk) => {
+      output += chunk;
+    });
+    proc.on("error", () => resolve(null));
+    proc.on("close", () => {
+      try {
+        resolve(JSON.parse(output));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Parses ffmpeg's `-progress` output, a stream of `key=value` lines where
+ * each report ends with `progress=continue` or `progress=end`, and calls
+ * `onProgress` once per report.
+ */
+export function createProgressParser(durationSeconds, onProgress) {
+  let buffer = "";
+  let fields = {};
+  return (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const raw of lines) {
+      const line = raw.trim();
+      const separator = line.indexOf("=");
+      if (separator <= 0) continue;
+      const key = line.slice(0, separator);
+      const value = line.slice(separator + 1);
+      if (key !== "progress") {
+        fields[key] = value;
+        continue;
+      }
+      onProgress(toProgress(fields, value === "end", durationSeconds));
+      fields = {};
+    }
+  };
+}
+
+function toProgress(fields, done, durationSeconds) {
+  // out_time_ms is misnamed and also in microseconds.
+  const outTimeUs = Number.parseInt(fields.out_time_us ?? fields.out_time_ms ?? "", 10);
+  const outTimeSeconds = Number.isFinite(outTimeUs) && outTimeUs > 0 ? outTimeUs / 1_000_000 : 0;
+  const speed = Number.parseFloat((fields.speed ?? "").replace(/x$/, ""));
+  const fps = Number.parseFloat(fields.fps ?? "");
+  const frame = Number.parseInt(fields.frame ?? "", 10);
+  let percent = null;
+  if (done) {
+    percent = 100;
+  } else if (durationSeconds > 0) {
+    percent = Math.min(100, (outTimeSeconds / durationSeconds) * 100);
+  }
+  return {
+    outTimeSeconds,
+    durationSeconds,
+    percent,
+    frame: Number.isFinite(frame) ? frame : 0,
+    fps: Number.isFinite(fps) ? fps : 0,
+    speed: Number.isFinite(speed) ? speed : null,
+    done,
+  };
+}
+
+/**
+ * An `onProgress` callback that redraws `label` with the percentage and
+ * speed on one terminal line, at most every 250ms until the final report.
+ */
+export function renderTranscodeProgress(label, stream = process.stdout) {
+  let lastRender = 0;
+  return (progress) => {
+    const now = Date.now();
+    if (!progress.done && now - lastRender < 250) return;
+    lastRender = now;
+    const pct = progress.percent === null ? "" : ` ${progress.percent.toFixed(1)}%`;
+    const speed = progress.speed === null ? "" : ` (${progress.speed.toFixed(1)}x)`;
+    stream.write(`\r${label}${pct}${speed}`);
+    if (progress.done) stream.write("\n");
+  };
+}
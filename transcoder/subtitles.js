@@ -0,0 +1,233 @@
+import fs from "fs";
+import path from "path";
+import { runFfmpeg } from "./ffmpeg.js";
+import { languageName, normalizeLanguage } from "./language.js";
+import { isVideoFile } from "./layout.js";
+import { formatVttTimestamp } from "./vtt.js";
+
+export const SUBTITLE_EXTENSIONS = [".srt", ".vtt", ".ass", ".ssa"];
+// Bitmap formats (PGS, VobSub, DVB) would need OCR, so only these are extracted.
+const TEXT_SUBTITLE_CODECS = new Set(["subrip", "srt", "ass", "ssa", "webvtt", "mov_text", "text"]);
+// Subtitle text is tiny, so long segments keep the file count down.
+const SUBTITLE_SEGMENT_SECONDS = 30;
+const MPEGTS_CLOCK_HZ = 90_000;
+const SIDECAR_FLAGS = new Set(["default", "forced", "sdh", "cc"]);
+
+/**
+ * Lists the subtitle sources for a video: its text subtitle streams plus
+ * sidecar files next to it named `<video name>[.<language>][.forced|.sdh].<ext>`,
+ * e.g. `Movie.mkv` and `Movie.en.forced.srt`. A sidecar that also starts
+ * with a longer video name in the folder, such as `Movie.Part2.en.srt` next
+ * to `Movie.Part2.mkv`, belongs to that video instead.
+ */
+export async function findSubtitleSources(input, subtitleStreams) {
+  const embedded = subtitleStreams
+    .filter((stream) => TEXT_SUBTITLE_CODECS.has(stream.codec))
+    .map((stream) => ({
+      kind: "embedded",
+      streamIndex: stream.index,
+      language: normalizeLanguage(stream.language),
+      title: stream.title,
+      default: stream.default,
+      forced: stream.forced,
+      hearingImpaired: stream.hearingImpaired,
+    }));
+  return [...embedded, ...(await findSidecarSubtitles(input))];
+}
+
+async function findSidecarSubtitles(input) {
+  const dir = path.dirname(input);
+  const stem = path.basename(input, path.extname(input));
+  let names;
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const longerStems = names
+    .filter(isVideoFile)
+    .map((name) => path.basename(name, path.extname(name)))
+    .filter((other) => other.length > stem.length && other.startsWith(`${stem}.`));
+
+  return names
+    .filter((name) => SUBTITLE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .filter((name) => name.startsWith(`${stem}.`))
+    .filter((name) => !longerStems.some((other) => name.startsWith(`${other}.`)))
+    .sort()
+    .map((name) => {
+      const tokens = name.slice(stem.length + 1, -path.extname(name).length).split(".").filter(Boolean);
+      const flags = new Set(tokens.map((token) => token.toLowerCase()).filter((token) => SIDECAR_FLAGS.has(token)));
+      const rest = tokens.filter((token) => !SIDECAR_FLAGS.has(token.toLowerCase()));
+      const languageToken = rest.find((token) => normalizeLanguage(token));
+      const title = rest.filter((token) => token !== languageToken).join(" ");
+      return {
+        kind: "sidecar",
+        path: path.join(dir, name),
+        language: normalizeLanguage(languageToken),
+        title: title || null,
+        default: flags.has("default"),
+        forced: flags.has("forced"),
+        hearingImpaired: flags.has("sdh") || flags.has("cc"),
+      };
+    });
+}
+
+/**
+ * Converts every subtitle source to WebVTT and writes one segmented media
+ * playlist per track (`subs_<id>.m3u8` with `subs_<id>_NNN.vtt` segments).
+ * Embedded streams are extracted in a single pass over the source. Sources
+ * that fail to convert are reported through `onWarning` and left out.
+ */
+export async function extractSubtitles(input, outputDir, sources, { durationSeconds, startTimeSeconds, onWarning }) {
+  const texts = new Map();
+
+  const embedded = sources.filter((source) => source.kind === "embedded");
+  if (embedded.length) {
+    const scratch = embedded.map((source) => path.join(outputDir, `.subs_${source.streamIndex}.vtt`));
+    try {
+      await runFfmpeg([
+        "-hide_banner",
+        "-loglevel",
+        "error",
+        "-y",
+        "-i",
+        input,
+        ...embedded.flatMap((source, index) => [
+          "-map",
+          `0:${source.streamIndex}`,
+          "-c:s",
+          "webvtt",
+          "-f",
+          "webvtt",
+          scratch[index],
+        ]),
+      ]);
+      for (const [index, source] of embedded.entries()) {
+        texts.set(source, await fs.promises.readFile(scratch[index], "utf8"));
+      }
+    } catch (error) {
+      onWarning?.(`Could not extract embedded subtitles: ${error.message}`);
+    } finally {
+      await Promise.all(scratch.map((file) => fs.promises.rm(file, { force: true })));
+    }
+  }
+
+  for (const source of sources.filter((item) => item.kind === "sidecar")) {
+    let text = "";
+    try {
+      await runFfmpeg(
+        ["-hide_banner", "-loglevel", "error", "-i", source.path, "-c:s", "webvtt", "-f", "webvtt", "pipe:1"],
+        (chunk) => {
+          text += chunk;
+        }
+      );
+      texts.set(source, text);
+    } catch (error) {
+      onWarning?.(`Could not convert ${path.basename(source.path)}: ${error.message}`);
+    }
+  }
+
+  const tracks = [];
+  const usedIds = new Set();
+  for (const source of sources) {
+    const cues = texts.has(source) ? parseWebVttCues(texts.get(source)) : [];
+    if (!cues.length) continue;
+
+    const id = uniqueTrackId(source, usedIds);
+    const uri = `subs_${id}.m3u8`;
+    await writeSegmentedTrack(outputDir, id, uri, cues, { durationSeconds, startTimeSeconds });
+    tracks.push({
+      name: trackName(source),
+      language: source.language,
+      uri,
+      default: source.default,
+      forced: source.forced,
+    });
+  }
+
+  // Subtitles used to be shown by default; keep that unless a track says otherwise.
+  if (tracks.length && !tracks.some((track) => track.default)) {
+    const first = tracks.find((track) => !track.forced);
+    if (first) first.default = true;
+  }
+  return tracks;
+}
+
+function trackName(source) {
+  if (source.title) return source.title;
+  const base = source.language ? languageName(source.language) : "Unknown";
+  if (source.forced) return `${base} (Forced)`;
+  if (source.hearingImpaired) return `${base} (SDH)`;
+  return base;
+}
+
+function uniqueTrackId(source, usedIds) {
+  const base = [source.language ?? "und", source.forced ? "forced" : "", source.hearingImpaired ? "sdh" : ""]
+    .filter(Boolean)
+    .join("_")
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, "_");
+  let id = base;
+  for (let n = 2; usedIds.has(id); n += 1) id = `${base}_${n}`;
+  usedIds.add(id);
+  return id;
+}
+
+function parseWebVttCues(text) {
+  const cues = [];
+  for (const block of text.replace(/\r\n?/g, "\n").split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+    const [startText, rest = ""] = lines[timingIndex].split("-->");
+    const [endText, ...settings] = rest.trim().split(/\s+/);
+    const start = parseTimestamp(startText.trim());
+    const end = parseTimestamp(endText);
+    const payload = lines.slice(timingIndex + 1).join("\n").trim();
+    if (start === null || end === null || end <= start || !payload) continue;
+    cues.push({ start, end, settings: settings.join(" "), payload });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+function parseTimestamp(value) {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(value ?? "");
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+async function writeSegmentedTrack(outputDir, id, uri, cues, { durationSeconds, startTimeSeconds }) {
+  const totalSeconds = Math.max(durationSeconds, cues[cues.length - 1].end);
+  const segmentCount = Math.max(1, Math.ceil(totalSeconds / SUBTITLE_SEGMENT_SECONDS));
+  // Maps cue times onto the video's MPEG-TS clock so players line the two up.
+  const header =
+    startTimeSeconds === null
+      ? "WEBVTT"
+      : `WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:${Math.round(startTimeSeconds * MPEGTS_CLOCK_HZ)},LOCAL:00:00:00.000`;
+
+  const playlist = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    `#EXT-X-TARGETDURATION:${SUBTITLE_SEGMENT_SECONDS}`,
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+  ];
+  for (let index = 0; index < segmentCount; index += 1) {
+    const segmentStart = index * SUBTITLE_SEGMENT_SECONDS;
+    const segmentEnd = Math.min(segmentStart + SUBTITLE_SEGMENT_SECONDS, totalSeconds);
+    // A cue spanning a boundary is repeated in both segments; players drop the duplicate.
+    const body = cues
+      .filter((cue) => cue.start < segmentEnd && cue.end > segmentStart)
+      .map((cue) => {
+        const timing = `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}`;
+        return `${cue.settings ? `${timing} ${cue.settings}` : timing}\n${cue.payload}`;
+      });
+    const segmentName = `subs_${id}_${String(index).padStart(3, "0")}.vtt`;
+    await fs.promises.writeFile(path.join(outputDir, segmentName), [header, ...body, ""].join("\n\n"));
+    playlist.push(`#EXTINF:${(segmentEnd - segmentStart).toFixed(3)},`, segmentName);
+  }
+  playlist.push("#EXT-X-ENDLIST", "");
+  await fs.promises.writeFile(path.join(outputDir, uri), playlist.join("\n"));
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { runFfmpeg } from "../ffmpeg.js";
+import { stubSpawn } from "./spawn-stub.js";
+
+test("runFfmpeg resolves on exit code 0 and streams stdout", async (t) => {
+  const calls = stubSpawn(t, (_command, _args, proc) => {
+    proc.stdout.write("frame=1\n");
+    proc.stdout.write("progress=end\n");
+    proc.exit(0);
+  });
+  let stdout = "";
+  await runFfmpeg(["-i", "in.mp4", "out.m3u8"], (chunk) => {
+    stdout += chunk;
+  });
+  assert.deepEqual(calls, [{ command: "ffmpeg", args: ["-i", "in.mp4", "out.m3u8"] }]);
+  assert.equal(stdout, "frame=1\nprogress=end\n");
+});
+
+test("runFfmpeg rejects with the exit code and stderr on failure", async (t) => {
+  stubSpawn(t, (_command, _args, proc) => {
+    proc.stderr.write("in.mp4: No such file or directory\n");
+    proc.exit(1);
+  });
+  await assert.rejects(runFfmpeg(["-i", "in.mp4"]), {
+    message: "ffmpeg exited with code 1: in.mp4: No such file or directory",
+  });
+});
+
+test("runFfmpeg keeps only the tail of a long stderr", async (t) => {
+  stubSpawn(t, (_command, _args, proc) => {
+    proc.stderr.write("x".repeat(10_000));
+    proc.stderr.write("last line");
+    proc.exit(183);
+  });
+  const error = await runFfmpeg([]).catch((caught) => caught);
+  assert.match(error.message, /^ffmpeg exited with code 183: x+last line$/);
+  assert.equal(error.message.length, "ffmpeg exited with code 183: ".length + 4096);
+});
+
+test("runFfmpeg rejects when ffmpeg can't be started", async (t) => {
+  stubSpawn(t, (_command, _args, proc) => {
+    proc.fail(Object.assign(new Error("spawn ffmpeg ENOENT"), { code: "ENOENT" }));
+  });
+  await assert.rejects(runFfmpeg([]), { code: "ENOENT" });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildLadderArgs, selectRenditions } from "../ladder.js";
+
+const OPTIONS = { segmentSeconds: 2, audioBitrate: 128_000, x264Preset: "veryfast" };
+
+test("selectRenditions never upscales", () => {
+  const renditions = selectRenditions(["1080p", "720p", "480p"], { width: 1280, height: 720 });
+  assert.deepEqual(
+    renditions.map(({ name, width, height }) => ({ name, width, height })),
+    [
+      { name: "720p", width: 1280, height: 720 },
+      { name: "480p", width: 854, height: 480 },
+    ]
+  );
+});
+
+test("selectRenditions accepts a comma-separated list and orders it by height", () => {
+  const renditions = selectRenditions(" 360p, 1080p ,", { width: 1920, height: 1080 });
+  assert.deepEqual(
+    renditions.map((rendition) => rendition.name),
+    ["1080p", "360p"]
+  );
+});
+
+test("selectRenditions fits portrait and ultrawide sources inside the box", () => {
+  const [portrait] = selectRenditions(["720p"], { width: 1080, height: 1920 });
+  assert.deepEqual([portrait.width, portrait.height], [406, 720]);
+  const [wide] = selectRenditions(["720p"], { width: 2560, height: 1080 });
+  assert.deepEqual([wide.width, wide.height], [1280, 540]);
+});
+
+test("selectRenditions keeps the smallest rendition for tiny sources", () => {
+  const renditions = selectRenditions(["720p", "360p"], { width: 320, height: 240 });
+  assert.deepEqual(
+    renditions.map(({ name, width, height }) => ({ name, width, height })),
+    [{ name: "360p", width: 320, height: 240 }]
+  );
+});
+
+test("selectRenditions uses the boxes when the size is unknown", () => {
+  const renditions = selectRenditions(["1080p", "480p"], { width: 0, height: 0 });
+  assert.deepEqual(
+    renditions.map(({ width, height }) => [width, height]),
+    [
+      [1920, 1080],
+      [854, 480],
+    ]
+  );
+});
+
+test("selectRenditions rejects unknown or empty ladders", () => {
+  assert.throws(() => selectRenditions(["720p", "4k"], {}), /Unknown HLS ladder renditions: 4k/);
+  assert.throws(() => selectRenditions("", {}), /at least one rendition/);
+});
+
+test("buildLadderArgs maps one video and audio stream per rendition", () => {
+  const source = { width: 1920, height: 1080, hasAudio: true };
+  const renditions = selectRenditions(["1080p", "480p"], source);
+  const args = buildLadderArgs("/in/movie.mkv", "/out", renditions, source, OPTIONS);
+
+  assert.deepEqual(args.slice(0, 2), ["-i", "/in/movie.mkv"]);
+  const filter = args[args.indexOf("-filter_complex") + 1];
+  assert.match(filter, /^\[0:v\]split=2\[v0\]\[v1\];/);
+  assert.match(filter, /\[v1\]scale=w=854:h=480:/);
+  assert.equal(args.filter((arg) => arg === "0:a:0").length, 2);
+  assert.equal(args[args.indexOf("-b:v:0") + 1], "5000k");
+  assert.equal(args[args.indexOf("-maxrate:v:1") + 1], "1498k");
+  assert.equal(args[args.indexOf("-bufsize:v:1") + 1], "2800k");
+  assert.equal(args[args.indexOf("-b:a") + 1], "128k");
+  assert.equal(args[args.indexOf("-force_key_frames") + 1], "expr:gte(t,n_forced*2)");
+  assert.equal(args[args.indexOf("-var_stream_map") + 1], "v:0,a:0,name:1080p v:1,a:1,name:480p");
+  assert.equal(args[args.indexOf("-hls_segment_filename") + 1], "/out/%v_%03d.ts");
+  assert.equal(args.at(-1), "/out/index_%v.m3u8");
+});
+
+test("buildLadderArgs leaves audio out for silent sources", () => {
+  const source = { width: 1280, height: 720, hasAudio: false };
+  const args = buildLadderArgs("in.mp4", "out", selectRenditions(["720p"], source), source, OPTIONS);
+  assert.ok(!args.includes("0:a:0"));
+  assert.ok(!args.includes("-c:a"));
+  assert.equal(args[args.indexOf("-var_stream_map") + 1], "v:0,name:720p");
+});
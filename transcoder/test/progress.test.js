@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createProgressParser, renderTranscodeProgress } from "../progress.js";
+
+function collect(durationSeconds) {
+  const reports = [];
+  return { reports, parse: createProgressParser(durationSeconds, (progress) => reports.push(progress)) };
+}
+
+test("reports once per progress block", () => {
+  const { reports, parse } = collect(100);
+  parse("frame=240\nfps=48.5\nout_time_us=10000000\nspeed=2.5x\nprogress=continue\n");
+  assert.deepEqual(reports, [
+    { outTimeSeconds: 10, durationSeconds: 100, percent: 10, frame: 240, fps: 48.5, speed: 2.5, done: false },
+  ]);
+});
+
+test("joins lines split across chunks", () => {
+  const { reports, parse } = collect(100);
+  parse("frame=2");
+  parse("40\nout_time_");
+  parse("us=25000000\nprogr");
+  assert.equal(reports.length, 0);
+  parse("ess=continue\n");
+  assert.equal(reports.length, 1);
+  assert.equal(reports[0].frame, 240);
+  assert.equal(reports[0].percent, 25);
+});
+
+test("reads the misnamed out_time_ms as microseconds", () => {
+  const { reports, parse } = collect(60);
+  parse("out_time_ms=30000000\nprogress=continue\n");
+  assert.equal(reports[0].outTimeSeconds, 30);
+  assert.equal(reports[0].percent, 50);
+});
+
+test("prefers out_time_us over out_time_ms", () => {
+  const { reports, parse } = collect(60);
+  parse("out_time_ms=1\nout_time_us=6000000\nprogress=continue\n");
+  assert.equal(reports[0].outTimeSeconds, 6);
+});
+
+test("progress=end reports 100% and done", () => {
+  const { reports, parse } = collect(60);
+  parse("out_time_us=59000000\nprogress=end\n");
+  assert.equal(reports[0].done, true);
+  assert.equal(reports[0].percent, 100);
+});
+
+test("starts each block from fresh fields", () => {
+  const { reports, parse } = collect(0);
+  parse("frame=10\nspeed=1.5x\nprogress=continue\nprogress=continue\n");
+  assert.equal(reports[1].frame, 0);
+  assert.equal(reports[1].speed, null);
+  // Without a known duration there's no percentage until the end.
+  assert.equal(reports[0].percent, null);
+});
+
+test("ignores CRLF line endings and garbage lines", () => {
+  const { reports, parse } = collect(10);
+  parse("noise\r\n=oops\r\nout_time_us=N/A\r\nprogress=continue\r\n");
+  assert.equal(reports.length, 1);
+  assert.equal(reports[0].outTimeSeconds, 0);
+  assert.equal(reports[0].percent, 0);
+});
+
+test("renders throttled progress lines and always the final one", () => {
+  let output = "";
+  const render = renderTranscodeProgress("Encoding a.mkv", { write: (chunk) => (output += chunk) });
+  render({ percent: 10, speed: 2, done: false });
+  render({ percent: 11, speed: 2, done: false });
+  render({ percent: 100, speed: null, done: true });
+  assert.equal(output, "\rEncoding a.mkv 10.0% (2.0x)\rEncoding a.mkv 100.0%\n");
+});
@@ -0,0 +1,36 @@
+import childProcess from "child_process";
+import { EventEmitter } from "events";
+import { syncBuiltinESMExports } from "module";
+import { PassThrough } from "stream";
+
+/**
+ * Replaces `child_process.spawn` for the transcoder modules. `handler`
+ * receives `(command, args, proc)` for every spawn and drives the fake
+ * process: write to `proc.stdout`/`proc.stderr`, then `proc.exit(code)` or
+ * `proc.fail(error)`. Returns the `{ command, args }` of each call; the stub
+ * is removed when `t` ends.
+ */
+export function stubSpawn(t, handler) {
+  const calls = [];
+  t.mock.method(childProcess, "spawn", (command, args) => {
+    const proc = new EventEmitter();
+    proc.stdout = new PassThrough();
+    proc.stderr = new PassThrough();
+    proc.exit = (code) => {
+      proc.stdout.end();
+      proc.stderr.end();
+      // Like a real child, "close" follows the end of its output streams.
+      setImmediate(() => proc.emit("close", code));
+    };
+    proc.fail = (error) => setImmediate(() => proc.emit("error", error));
+    calls.push({ command, args });
+    setImmediate(() => handler(command, args, proc));
+    return proc;
+  });
+  syncBuiltinESMExports();
+  t.after(() => {
+    t.mock.restoreAll();
+    syncBuiltinESMExports();
+  });
+  return calls;
+}
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { findSubtitleSources } from "../subtitles.js";
+
+async function folderWith(t, names) {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "subtitles-test-"));
+  t.after(() => fs.promises.rm(dir, { recursive: true, force: true }));
+  await Promise.all(names.map((name) => fs.promises.writeFile(path.join(dir, name), "")));
+  return dir;
+}
+
+test("reads language and flags from sidecar names", async (t) => {
+  const dir = await folderWith(t, ["Movie.mkv", "Movie.en.forced.srt", "Movie.srt", "Other.en.srt"]);
+  const sources = await findSubtitleSources(path.join(dir, "Movie.mkv"), []);
+  assert.deepEqual(
+    sources.map(({ path: file, language, forced }) => [path.basename(file), language, forced]),
+    [
+      ["Movie.en.forced.srt", "en", true],
+      ["Movie.srt", null, false],
+    ]
+  );
+});
+
+test("leaves sidecars of a longer video name to that video", async (t) => {
+  const dir = await folderWith(t, ["Movie.mkv", "Movie.Part2.mkv", "Movie.en.srt", "Movie.Part2.en.srt"]);
+  const first = await findSubtitleSources(path.join(dir, "Movie.mkv"), []);
+  assert.deepEqual(
+    first.map((source) => path.basename(source.path)),
+    ["Movie.en.srt"]
+  );
+  const second = await findSubtitleSources(path.join(dir, "Movie.Part2.mkv"), []);
+  assert.deepEqual(
+    second.map((source) => [path.basename(source.path), source.title]),
+    [["Movie.Part2.en.srt", null]]
+  );
+});
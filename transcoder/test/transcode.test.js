@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { test } from "node:test";
+import { transcodeToHls } from "../index.js";
+import { stubSpawn } from "./spawn-stub.js";
+
+const PROBE = {
+  streams: [
+    { index: 0, codec_type: "video", codec_name: "h264", width: 1280, height: 720 },
+    { index: 1, codec_type: "audio", codec_name: "aac", tags: { language: "eng" } },
+  ],
+  format: { duration: "9.5" },
+};
+
+async function tempSource(t, sidecars = {}) {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transcoder-"));
+  t.after(() => fs.promises.rm(dir, { recursive: true, force: true }));
+  const input = path.join(dir, "movie.mkv");
+  await fs.promises.writeFile(input, "source bytes");
+  for (const [name, text] of Object.entries(sidecars)) {
+    await fs.promises.writeFile(path.join(dir, name), text);
+  }
+  return { input, outputDir: path.join(dir, "out") };
+}
+
+/** Plays ffprobe and every ffmpeg step of a run; `overrides` can replace a step by name. */
+function fakeTools(overrides = {}) {
+  return (command, args, proc) => {
+    const step = stepFor(command, args);
+    if (overrides[step]) return overrides[step](args, proc);
+    if (step === "probe") {
+      proc.stdout.end(JSON.stringify(PROBE));
+    } else if (step === "start-time") {
+      proc.stdout.end(JSON.stringify({ format: { start_time: "1.400000" } }));
+    } else if (step === "ladder") {
+      writeLadderOutput(args);
+      proc.stdout.write("out_time_us=4750000\nspeed=3.0x\nprogress=continue\n");
+      proc.stdout.write("out_time_us=9500000\nprogress=end\n");
+    } else if (step === "sidecar") {
+      proc.stdout.write("WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello\n");
+    } else if (step === "poster") {
+      fs.writeFileSync(args.at(-1), "jpeg");
+    }
+    proc.exit(0);
+  };
+}
+
+function stepFor(command, args) {
+  if (command === "ffprobe") return args.includes("format=start_time") ? "start-time" : "probe";
+  if (args.includes("-progress")) return "ladder";
+  if (args.includes("pipe:1")) return "sidecar";
+  if (args.includes("-frames:v")) return "poster";
+  if (args.some((arg) => arg.includes("tile="))) return "thumbnails";
+  return "unknown";
+}
+
+function writeLadderOutput(args) {
+  const outputDir = path.dirname(args.at(-1));
+  const names = args[args.indexOf("-var_stream_map") + 1].split(" ").map((entry) => entry.split("name:")[1]);
+  for (const name of names) {
+    const segments = [0, 1].map((index) => `${name}_00${index}.ts`);
+    for (const segment of segments) fs.writeFileSync(path.join(outputDir, segment), Buffer.alloc(1000));
+    fs.writeFileSync(
+      path.join(outputDir, `index_${name}.m3u8`),
+      ["#EXTM3U", ...segments.flatMap((segment) => ["#EXTINF:4.75,", segment]), "#EXT-X-ENDLIST", ""].join("\n")
+    );
+  }
+}
+
+test("transcodeToHls runs every step and writes the master last", async (t) => {
+  const { input, outputDir } = await tempSource(t, { "movie.en.srt": "1\n00:00:01,000 --> 00:00:02,000\nHello\n" });
+  const calls = stubSpawn(t, fakeTools());
+  const progress = [];
+  const warnings = [];
+
+  const result = await transcodeToHls(
+    input,
+    outputDir,
+    { ladder: "1080p,720p,480p" },
+    { onProgress: (report) => progress.push(report), onWarning: (message) => warnings.push(message) }
+  );
+
+  assert.deepEqual(
+    calls.map(({ command, args }) => stepFor(command, args)),
+    ["probe", "ladder", "start-time", "sidecar", "thumbnails", "poster"]
+  );
+  assert.deepEqual(warnings, []);
+  assert.deepEqual(
+    progress.map(({ percent, done }) => [percent, done]),
+    [
+      [50, false],
+      [100, true],
+    ]
+  );
+  assert.deepEqual(
+    result.renditions.map((rendition) => rendition.name),
+    ["720p", "480p"]
+  );
+  assert.equal(result.durationSeconds, 9.5);
+  assert.equal(result.subtitles.length, 1);
+  assert.equal(result.thumbnails.uri, "thumbnails.vtt");
+  assert.equal(result.metadata.poster, "poster.jpg");
+  assert.deepEqual(result.metadata.audioLanguages, ["en"]);
+
+  const master = await fs.promises.readFile(result.playlistPath, "utf8");
+  assert.equal(result.playlistPath, path.join(outputDir, "index.m3u8"));
+  assert.match(master, /#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",DEFAULT=YES/);
+  // 1000-byte segments of 4.75s each.
+  assert.match(master, /BANDWIDTH=1685,AVERAGE-BANDWIDTH=1685,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2",SUBTITLES="subs"\nindex_720p.m3u8/);
+  assert.match(master, /RESOLUTION=854x480,.*\nindex_480p.m3u8/);
+  const subtitlePlaylist = await fs.promises.readFile(path.join(outputDir, result.subtitles[0].uri), "utf8");
+  assert.match(subtitlePlaylist, /#EXT-X-ENDLIST/);
+  const segment = await fs.promises.readFile(path.join(outputDir, "subs_en_000.vtt"), "utf8");
+  assert.match(segment, /X-TIMESTAMP-MAP=MPEGTS:126000,LOCAL:00:00:00.000/);
+});
+
+test("transcodeToHls rejects without a master playlist when the ladder encode fails", async (t) => {
+  const { input, outputDir } = await tempSource(t);
+  const calls = stubSpawn(
+    t,
+    fakeTools({
+      ladder: (_args, proc) => {
+        proc.stderr.write("Conversion failed!");
+        proc.exit(1);
+      },
+    })
+  );
+
+  await assert.rejects(transcodeToHls(input, outputDir), /ffmpeg exited with code 1: Conversion failed!/);
+  assert.equal(calls.length, 2);
+  assert.equal(fs.existsSync(path.join(outputDir, "index.m3u8")), false);
+});
+
+test("transcodeToHls carries on without thumbnails or a poster", async (t) => {
+  const { input, outputDir } = await tempSource(t);
+  const failing = (_args, proc) => {
+    proc.stderr.write("boom");
+    proc.exit(1);
+  };
+  stubSpawn(t, fakeTools({ thumbnails: failing, poster: failing }));
+  const warnings = [];
+
+  const result = await transcodeToHls(input, outputDir, {}, { onWarning: (message) => warnings.push(message) });
+
+  assert.equal(result.thumbnails, null);
+  assert.equal(result.metadata.poster, null);
+  assert.deepEqual(warnings, [
+    "Could not generate thumbnails: ffmpeg exited with code 1: boom",
+    "Could not extract a poster frame: ffmpeg exited with code 1: boom",
+  ]);
+  assert.ok(fs.existsSync(result.playlistPath));
+});
+
+test("transcodeToHls skips thumbnails when the interval is 0", async (t) => {
+  const { input, outputDir } = await tempSource(t);
+  const calls = stubSpawn(t, fakeTools());
+
+  const result = await transcodeToHls(input, outputDir, { ladder: ["480p"], thumbnailIntervalSeconds: 0 });
+
+  assert.equal(result.thumbnails, null);
+  assert.ok(!calls.some(({ command, args }) => stepFor(command, args) === "thumbnails"));
+  assert.deepEqual(
+    result.renditions.map((rendition) => rendition.name),
+    ["480p"]
+  );
+});
@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { runFfmpeg } from "./ffmpeg.js";
+import { formatVttTimestamp } from "./vtt.js";
+
+export const THUMBNAIL_TRACK_NAME = "thumbnails.vtt";
+const THUMBNAIL_WIDTH = 160;
+// 10x10 tiles of 160px keeps each sheet around 1600x900.
+const SHEET_COLUMNS = 10;
+const SHEET_ROWS = 10;
+
+/**
+ * Grabs a frame every `intervalSeconds` into JPEG sprite sheets
+ * (`thumbs_NNN.jpg`) and writes a WebVTT track mapping each interval to its
+ * tile with a `#xywh=` fragment. Needs the duration to know where the last
+ * tile is, so it is skipped when probing couldn't tell.
+ */
+export async function generateThumbnails(input, outputDir, source, { intervalSeconds }) {
+  if (!(source.durationSeconds > 0)) return null;
+
+  const width = THUMBNAIL_WIDTH;
+  const aspect = source.width && source.height ? source.height / source.width : 9 / 16;
+  const height = Math.round((width * aspect) / 2) * 2;
+  await runFfmpeg([
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-y",
+    "-i",
+    input,
+    "-an",
+    "-sn",
+    "-vf",
+    `fps=1/${intervalSeconds},scale=${width}:${height},tile=${SHEET_COLUMNS}x${SHEET_ROWS}`,
+    "-q:v",
+    "5",
+    "-start_number",
+    "0",
+    path.join(outputDir, "thumbs_%03d.jpg"),
+  ]);
+
+  const perSheet = SHEET_COLUMNS * SHEET_ROWS;
+  const count = Math.ceil(source.durationSeconds / intervalSeconds);
+  const cues = [];
+  for (let index = 0; index < count; index += 1) {
+    const start = index * intervalSeconds;
+    const end = Math.min(start + intervalSeconds, source.durationSeconds);
+    const tile = index % perSheet;
+    const sheet = `thumbs_${String(Math.floor(index / perSheet)).padStart(3, "0")}.jpg`;
+    const x = (tile % SHEET_COLUMNS) * width;
+    const y = Math.floor(tile / SHEET_COLUMNS) * height;
+    cues.push(`${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n${sheet}#xywh=${x},${y},${width},${height}`);
+  }
+  await fs.promises.writeFile(path.join(outputDir, THUMBNAIL_TRACK_NAME), ["WEBVTT", ...cues, ""].join("\n\n"));
+  return { uri: THUMBNAIL_TRACK_NAME, intervalSeconds, width, height };
+}
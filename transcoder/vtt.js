@@ -0,0 +1,9 @@
+/** Formats seconds as a WebVTT timestamp, `HH:MM:SS.mmm`. */
+export function formatVttTimestamp(totalSeconds) {
+  const millis = Math.round(totalSeconds * 1000);
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor((millis % 3_600_000) / 60_000);
+  const seconds = Math.floor((millis % 60_000) / 1000);
+  const pad = (value, size = 2) => String(value).padStart(size, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis % 1000, 3)}`;
+}
@@ -72,12 +72,14 @@ function contentTypeFor(filePath: string) {
   if (filePath.endsWith(".m3u8")) return "application/vnd.apple.mpegurl";
   if (filePath.endsWith(".ts")) return "video/MP2T";
   if (filePath.endsWith(".vtt")) return "text/vtt";
+  if (filePath.endsWith(".jpg")) return "image/jpeg";
+  if (filePath.endsWith(".json")) return "application/json";
   return "application/octet-stream";
 }
 
 function cacheControlFor(filePath: string) {
   if (filePath.endsWith(".m3u8")) return "no-cache";
-  if (filePath.endsWith(".ts")) return "public, max-age=31536000, immutable";
+  if (filePath.endsWith(".ts") || filePath.endsWith(".jpg")) return "public, max-age=31536000, immutable";
   if (filePath.endsWith(".vtt")) return "public, max-age=3600";
   return "public, max-age=3600";
 }
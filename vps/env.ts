@@ -10,7 +10,12 @@ const EnvSchema = z
     QUEUE_BACKEND_URL: z.string().url(),
     QUEUE_BACKEND_TOKEN: z.string().min(1).optional(),
     VPS_HLS_PREFIX: z.string().min(1).optional(),
+    VPS_HLS_LADDER: z.string().min(1).optional(),
     VPS_WORK_DIR: z.string().min(1).optional(),
+    VPS_CONCURRENCY: z
+      .string()
+      .regex(/^\d+$/)
+      .optional(),
   })
   .passthrough();
 
@@ -22,7 +27,9 @@ export type VpsEnv = {
   queueBackendUrl: string;
   queueBackendToken?: string;
   hlsPrefix: string;
+  hlsLadder: string;
   workDir: string;
+  concurrency: number;
 };
 
 export function loadEnv(): Result<VpsEnv, Error> {
@@ -32,6 +39,7 @@ export function loadEnv(): Result<VpsEnv, Error> {
   }
 
   const env = parsed.data;
+  const concurrency = Number.parseInt(env.VPS_CONCURRENCY ?? "2", 10) || 2;
   return ok({
     accessKeyId: env.R2_ACCESS_KEY_ID,
     secretAccessKey: env.R2_SECRET_ACCESS_KEY,
@@ -40,6 +48,8 @@ export function loadEnv(): Result<VpsEnv, Error> {
     queueBackendUrl: env.QUEUE_BACKEND_URL,
     queueBackendToken: env.QUEUE_BACKEND_TOKEN,
     hlsPrefix: env.VPS_HLS_PREFIX ?? "hls",
+    hlsLadder: env.VPS_HLS_LADDER ?? "1080p,720p,480p,360p",
     workDir: env.VPS_WORK_DIR ?? "vps/work",
+    concurrency,
   });
 }
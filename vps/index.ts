@@ -1,10 +1,15 @@
 import fs from "fs";
 import path from "path";
-import { spawn } from "child_process";
 import { fileURLToPath } from "url";
 import { ResultAsync } from "neverthrow";
 import { loadEnv } from "./env";
 import { uploadHlsDir } from "../uploader/upload";
+import {
+  MASTER_PLAYLIST_NAME,
+  encodeHlsId,
+  renderTranscodeProgress,
+  transcodeToHls,
+} from "../transcoder";
 
 type EventStatus =
   | "torrent_downloaded"
@@ -52,8 +57,15 @@ await publishStatus({
   torrentKey,
 });
 
-const playlistPath = path.join(outputDir, "index.m3u8");
-await runFfmpeg(inputPath, outputDir, playlistPath);
+const { thumbnails } = await transcodeToHls(
+  inputPath,
+  outputDir,
+  { ladder: env.hlsLadder },
+  {
+    onProgress: renderTranscodeProgress(`Encoding ${path.basename(inputPath)}`),
+    onWarning: (message) => console.warn(message),
+  },
+);
 
 const prefix = `${env.hlsPrefix}/${id}`;
 await unwrapOrExitAsync(
@@ -61,28 +73,25 @@ await unwrapOrExitAsync(
     uploadHlsDir({
       hlsDir: outputDir,
       prefix,
-      concurrency: 2,
+      concurrency: env.concurrency,
       credentials,
     }),
     (error) => toError("Upload failed.", error),
   ),
 );
 
-await publishStatus({
-  id,
-  status: "hls_uploaded",
+// Each status replaces the last one, so every ready status repeats the output keys.
+const uploaded = {
   torrentKey,
-  hlsKey: `${prefix}/index.m3u8`,
-});
+  hlsKey: `${prefix}/${MASTER_PLAYLIST_NAME}`,
+  ...(thumbnails ? { meta: { thumbnailsKey: `${prefix}/${thumbnails.uri}` } } : {}),
+};
+
+await publishStatus({ id, status: "hls_uploaded", ...uploaded });
 
 await fs.promises.rm(outputDir, { recursive: true, force: true });
 
-await publishStatus({
-  id,
-  status: "cleanup_done",
-  torrentKey,
-  hlsKey: `${prefix}/index.m3u8`,
-});
+await publishStatus({ id, status: "cleanup_done", ...uploaded });
 
 console.log("Done.");
 
@@ -91,6 +100,7 @@ async function publishStatus(payload: {
   status: EventStatus;
   torrentKey: string;
   hlsKey?: string;
+  meta?: Record<string, unknown>;
 }) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -110,69 +120,6 @@ async function publishStatus(payload: {
   }
 }
 
-async function runFfmpeg(inputPath: string, outputDir: string, playlist: string) {
-  await new Promise<void>((resolve, reject) => {
-    const segmentPattern = path.join(outputDir, "%03d.ts");
-    const segmentSeconds = 2;
-    const args = [
-      "-i",
-      inputPath,
-      "-preset",
-      "veryfast",
-      "-c:v",
-      "libx264",
-      "-profile:v",
-      "main",
-      "-level",
-      "4.1",
-      "-pix_fmt",
-      "yuv420p",
-      "-crf",
-      "23",
-      "-maxrate",
-      "3500k",
-      "-bufsize",
-      "7000k",
-      "-g",
-      "48",
-      "-keyint_min",
-      "48",
-      "-sc_threshold",
-      "0",
-      "-force_key_frames",
-      `expr:gte(t,n_forced*${segmentSeconds})`,
-      "-c:a",
-      "aac",
-      "-b:a",
-      "128k",
-      "-ac",
-      "2",
-      "-hls_time",
-      String(segmentSeconds),
-      "-hls_list_size",
-      "0",
-      "-hls_playlist_type",
-      "vod",
-      "-hls_flags",
-      "independent_segments",
-      "-hls_segment_filename",
-      segmentPattern,
-      playlist,
-    ];
-
-    const proc = spawn("ffmpeg", args, { stdio: "inherit" });
-    proc.on("error", reject);
-    proc.on("close", (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`ffmpeg exited with code ${code}`));
-    });
-  });
-}
-
-function encodeHlsId(value: string) {
-  return Buffer.from(value).toString("base64url");
-}
-
 function unwrapOrExit<T>(result: { isOk(): boolean; value: T; error: Error }) {
   if (result.isOk()) return result.value;
   console.error(result.error.message);